@@ -0,0 +1,140 @@
+import type { DirID } from "./types";
+
+/**
+ * Kinds of values the vault cache holds. Every value belongs to the directory its item is in.
+ * DirId: Content of dir.c9r of a directory, by the encrypted name of the directory
+ * ShortName: Content of name.c9s of a shortened item, by the name of the .c9s folder
+ * Name: Decrypted name, by the encrypted name
+ * Type: Type of an item stored as a folder (directory, symlink or shortened file), by the encrypted name of the item
+ * Listing: Result of Vault.listItems for the directory
+ */
+export enum CacheKind{
+	DirId,
+	ShortName,
+	Name,
+	Type,
+	Listing
+}
+
+export type CacheOpts = {
+	/**
+	 * Max number of values to keep. Values that have not been used for the longest time are dropped first.
+	 * Defaults to 10000.
+	 */
+	maxEntries?: number;
+	/**
+	 * Milliseconds a value is kept for. Defaults to -1, which represents forever.
+	 */
+	ttl?: number;
+}
+
+type Entry = {
+	dirId: DirID;
+	value: unknown;
+	expires: number;
+}
+
+/**
+ * Cache of values that otherwise require a query to the data provider.
+ * The vault invalidates it on its own when it changes something. Call invalidate or clear if the vault has been changed by something else.
+ * If no options are given, nothing is cached.
+ */
+export class VaultCache{
+	private entries = new Map<string, Entry>();
+	/**
+	 * Keys of the entries that invalidate drops, by directory, so that it does not have to go through every entry
+	 */
+	private keysByDir = new Map<DirID, Set<string>>();
+	private maxEntries: number;
+	private ttl: number;
+	enabled: boolean;
+
+	constructor(options?: CacheOpts | null){
+		this.enabled = !!options;
+		this.maxEntries = options?.maxEntries ?? 10000;
+		this.ttl = options?.ttl ?? -1;
+	}
+
+	/**
+	 * Get a cached value
+	 * @param kind Kind of the value
+	 * @param dirId ID of the directory the item belongs to
+	 * @param name Name of the item, empty for values that belong to the directory itself
+	 * @returns The value, or undefined if it is not cached or has expired
+	 */
+	get<T>(kind: CacheKind, dirId: DirID, name: string): T | undefined{
+		const key = getKey(kind, dirId, name);
+		const entry = this.entries.get(key);
+		if(!entry) return undefined;
+		if(entry.expires < Date.now()){
+			this.remove(key, entry);
+			return undefined;
+		}
+		this.entries.delete(key);
+		// Move to the end, so that it is dropped last
+		this.entries.set(key, entry);
+		return entry.value as T;
+	}
+
+	/**
+	 * Cache a value
+	 * @param kind Kind of the value
+	 * @param dirId ID of the directory the item belongs to
+	 * @param name Name of the item, empty for values that belong to the directory itself
+	 * @param value Value to cache
+	 */
+	set(kind: CacheKind, dirId: DirID, name: string, value: unknown){
+		if(!this.enabled || this.maxEntries <= 0) return;
+		const key = getKey(kind, dirId, name);
+		this.entries.delete(key);
+		this.entries.set(key, {
+			dirId: dirId,
+			value: value,
+			expires: this.ttl < 0 ? Infinity : Date.now() + this.ttl
+		});
+		// Decrypted names never change for the same encrypted name, so they are never invalidated
+		if(kind !== CacheKind.Name){
+			let keys = this.keysByDir.get(dirId);
+			if(!keys){
+				keys = new Set();
+				this.keysByDir.set(dirId, keys);
+			}
+			keys.add(key);
+		}
+		while(this.entries.size > this.maxEntries){
+			const [oldest, entry] = this.entries.entries().next().value as [string, Entry];
+			this.remove(oldest, entry);
+		}
+	}
+
+	/**
+	 * Drop everything cached about a directory and the items in it
+	 * @param dirId ID of the directory that has been changed
+	 */
+	invalidate(dirId: DirID){
+		const keys = this.keysByDir.get(dirId);
+		if(!keys) return;
+		for(const key of keys) this.entries.delete(key);
+		this.keysByDir.delete(dirId);
+	}
+
+	/**
+	 * Drop everything
+	 */
+	clear(){
+		this.entries.clear();
+		this.keysByDir.clear();
+	}
+
+	private remove(key: string, entry: Entry){
+		this.entries.delete(key);
+		const keys = this.keysByDir.get(entry.dirId);
+		if(!keys) return;
+		keys.delete(key);
+		if(!keys.size) this.keysByDir.delete(entry.dirId);
+	}
+}
+
+function getKey(kind: CacheKind, dirId: DirID, name: string){
+	return `${kind}:${JSON.stringify([dirId, name])}`;
+}
@@ -0,0 +1,381 @@
+import { DecryptionTarget, InvalidSignatureError } from "./Errors";
+import type { ContentKey, EncryptionKey, MACKey } from "./types";
+
+/**
+ * Cipher combos defined by vault format 8. File names are always encrypted with AES-SIV.
+ * SIV_CTRMAC: File content is encrypted with AES-CTR, and authenticated with HMAC-SHA256
+ * SIV_GCM: File content is encrypted with AES-GCM
+ */
+export type CipherCombo = 'SIV_CTRMAC' | 'SIV_GCM';
+
+export const SUPPORTED_CIPHER_COMBOS: CipherCombo[] = ['SIV_CTRMAC', 'SIV_GCM'];
+
+/**
+ * Decrypted file header
+ */
+export type FileHeader = {
+	contentKey: ContentKey;
+	nonce: Uint8Array;
+}
+
+/**
+ * Encrypts and decrypts file headers and chunks with the keys of a vault
+ */
+export type FileCipher = {
+	/**
+	 * Size of the encrypted header in bytes
+	 */
+	headerSize: number;
+	/**
+	 * Max size of a decrypted chunk in bytes
+	 */
+	chunkSize: number;
+	/**
+	 * Max size of an encrypted chunk in bytes
+	 */
+	encChunkSize: number;
+	/**
+	 * Generate a new file header with a random content key
+	 * @returns Header object for encrypting chunks, and the encrypted header that goes in front of the file
+	 */
+	createHeader(): Promise<{header: FileHeader, encrypted: Uint8Array}>;
+	/**
+	 * Decrypt a file header
+	 * @param data Encrypted file, or at least the first headerSize bytes of it
+	 * @throws InvalidSignatureError if the header has been tampered with
+	 */
+	decryptHeader(data: Uint8Array): Promise<FileHeader>;
+	/**
+	 * Encrypt a chunk
+	 * @param header Header of the file the chunk belongs to
+	 * @param chunk Up to chunkSize bytes of content
+	 * @param chunkNumber Position of the chunk within the file, starting from 0
+	 */
+	encryptChunk(header: FileHeader, chunk: Uint8Array, chunkNumber: number): Promise<Uint8Array>;
+	/**
+	 * Decrypt a chunk
+	 * @param header Header of the file the chunk belongs to
+	 * @param chunk Encrypted chunk
+	 * @param chunkNumber Position of the chunk within the file, starting from 0
+	 * @throws InvalidSignatureError if the chunk has been tampered with, or belongs to another file or position
+	 */
+	decryptChunk(header: FileHeader, chunk: Uint8Array, chunkNumber: number): Promise<Uint8Array>;
+}
+
+const CHUNK_SIZE = 32768; // 32KiB
+
+/**
+ * Create the cipher for a cipher combo
+ * @param combo Cipher combo stored in vault.cryptomator
+ * @param encKey Encryption key of the vault
+ * @param macKey MAC key of the vault
+ * @throws RangeError if the cipher combo is not supported
+ */
+export function createCipher(combo: CipherCombo, encKey: EncryptionKey, macKey: MACKey): FileCipher{
+	switch(combo){
+		case 'SIV_CTRMAC':
+			return new CtrMacCipher(encKey, macKey);
+		case 'SIV_GCM':
+			return new GcmCipher(encKey);
+		default:
+			throw new RangeError(`Unsupported cipher combo: ${combo}`);
+	}
+}
+
+/**
+ * Work out the size of a file's content from the size of the encrypted file
+ * @param cipher Cipher the file has been encrypted with
+ * @param encryptedSize Size of the encrypted file in bytes
+ * @returns Size of the decrypted content in bytes
+ */
+export function getCleartextSize(cipher: FileCipher, encryptedSize: number){
+	const size = Math.max(0, encryptedSize - cipher.headerSize);
+	const overhead = cipher.encChunkSize - cipher.chunkSize;
+	const lastChunk = size % cipher.encChunkSize;
+	return Math.floor(size / cipher.encChunkSize) * cipher.chunkSize + Math.max(0, lastChunk - overhead);
+}
+
+/**
+ * Header payload is 8 reserved bytes of 0xFF followed by the content key
+ */
+function createHeaderPayload(contentKey: Uint8Array){
+	const payload = new Uint8Array(40);
+	payload.fill(255, 0, 8);
+	payload.set(contentKey, 8);
+	return payload;
+}
+
+function chunkNumberToBytes(chunkNumber: number){
+	const cCount = new Uint8Array(BigUint64Array.from([BigInt(chunkNumber)]).buffer);
+	cCount.reverse();
+	return cCount;
+}
+
+/**
+ * AES-CTR with HMAC-SHA256
+ * Header: 16 byte nonce, 40 byte encrypted payload, 32 byte MAC
+ * Chunk: 16 byte nonce, up to 32KiB of ciphertext, 32 byte MAC over the header nonce, chunk number, chunk nonce and ciphertext
+ */
+export class CtrMacCipher implements FileCipher{
+	headerSize = 88;
+	chunkSize = CHUNK_SIZE;
+	encChunkSize = CHUNK_SIZE + 48; // 16 byte nonce + 32 byte MAC
+
+	constructor(private encKey: EncryptionKey, private macKey: MACKey){}
+
+	async createHeader(){
+		const nonce = crypto.getRandomValues(new Uint8Array(16));
+		const contentKeyBuffer = crypto.getRandomValues(new Uint8Array(32));
+		const contentKey = await crypto.subtle.importKey(
+			'raw',
+			contentKeyBuffer,
+			'AES-CTR',
+			false,
+			['encrypt', 'decrypt']
+		) as ContentKey;
+		const payload = createHeaderPayload(contentKeyBuffer);
+		contentKeyBuffer.fill(0);
+		const encPayload = new Uint8Array(await crypto.subtle.encrypt(
+			{
+				name: 'AES-CTR',
+				counter: nonce,
+				length: 32
+			},
+			this.encKey,
+			payload
+		));
+		payload.fill(0);
+
+		const encrypted = new Uint8Array(this.headerSize);
+		encrypted.set(nonce, 0);
+		encrypted.set(encPayload, 16);
+		const sig = new Uint8Array(await crypto.subtle.sign('HMAC', this.macKey, encrypted.slice(0, 56)));
+		encrypted.set(sig, 56);
+		return {
+			header: {
+				contentKey: contentKey,
+				nonce: nonce
+			},
+			encrypted: encrypted
+		};
+	}
+
+	async decryptHeader(data: Uint8Array){
+		const payload = data.slice(0, 56);
+		const nonce = data.slice(0, 16);
+		const encContentKey = data.slice(16, 56);
+		const hmac = data.slice(56, 88);
+
+		const sig = new Uint8Array(await crypto.subtle.sign('HMAC', this.macKey, payload));
+		if(!isEqual(hmac, sig)) throw new InvalidSignatureError(DecryptionTarget.File);
+
+		const exportedContentKey = new Uint8Array(await crypto.subtle.decrypt(
+			{
+				name: 'AES-CTR',
+				counter: nonce,
+				length: 32
+			},
+			this.encKey,
+			encContentKey
+		));
+
+		const contentKey = await crypto.subtle.importKey(
+			'raw',
+			exportedContentKey.slice(8),
+			'AES-CTR',
+			false,
+			['encrypt', 'decrypt']
+		) as ContentKey;
+		exportedContentKey.fill(0);
+
+		return {
+			contentKey: contentKey,
+			nonce: nonce
+		};
+	}
+
+	async encryptChunk(header: FileHeader, chunk: Uint8Array, chunkNumber: number){
+		const nonce = crypto.getRandomValues(new Uint8Array(16));
+		const encrypted = new Uint8Array(await crypto.subtle.encrypt(
+			{
+				name: 'AES-CTR',
+				counter: nonce,
+				length: 32
+			},
+			header.contentKey,
+			chunk
+		));
+		const payload = new Uint8Array(40 + chunk.byteLength);
+		payload.set(header.nonce, 0);
+		payload.set(chunkNumberToBytes(chunkNumber), 16);
+		payload.set(nonce, 24);
+		payload.set(encrypted, 40);
+		const sig = new Uint8Array(await crypto.subtle.sign('HMAC', this.macKey, payload));
+		const result = new Uint8Array(16 + chunk.byteLength + 32);
+		result.set(nonce, 0);
+		result.set(encrypted, 16);
+		result.set(sig, 16 + chunk.byteLength);
+		return result;
+	}
+
+	async decryptChunk(header: FileHeader, chunk: Uint8Array, chunkNumber: number){
+		const ciphertextSize = chunk.byteLength - 48; //Whole block - 16 byte nonce - 32 byte MAC
+		const nonce = chunk.slice(0, 16);
+		const data = chunk.slice(16, ciphertextSize + 16); //32784
+		const hmac = chunk.slice(ciphertextSize + 16, chunk.byteLength); //32816
+		const payload = new Uint8Array(40 + ciphertextSize);
+		payload.set(header.nonce, 0);
+		payload.set(chunkNumberToBytes(chunkNumber), 16);
+		payload.set(nonce, 24);
+		payload.set(data, 40);
+		const sig = new Uint8Array(await crypto.subtle.sign('HMAC', this.macKey, payload));
+		if(!isEqual(hmac, sig)) throw new InvalidSignatureError(DecryptionTarget.File);
+		return new Uint8Array(await crypto.subtle.decrypt(
+			{
+				name: 'AES-CTR',
+				counter: nonce,
+				length: 32
+			},
+			header.contentKey,
+			data
+		));
+	}
+}
+
+/**
+ * AES-GCM
+ * Header: 12 byte nonce, 40 byte encrypted payload, 16 byte tag
+ * Chunk: 12 byte nonce, up to 32KiB of ciphertext, 16 byte tag. The chunk number and the header nonce are used as associated data.
+ */
+export class GcmCipher implements FileCipher{
+	headerSize = 68;
+	chunkSize = CHUNK_SIZE;
+	encChunkSize = CHUNK_SIZE + 28; // 12 byte nonce + 16 byte tag
+	private headerKey: Promise<CryptoKey>;
+
+	constructor(encKey: EncryptionKey){
+		// The encryption key is imported for AES-CTR, so it has to be imported again for AES-GCM
+		this.headerKey = (async () => {
+			const raw = new Uint8Array(await crypto.subtle.exportKey('raw', encKey));
+			try{
+				return await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+			} finally {
+				raw.fill(0);
+			}
+		})();
+	}
+
+	async createHeader(){
+		const nonce = crypto.getRandomValues(new Uint8Array(12));
+		const contentKeyBuffer = crypto.getRandomValues(new Uint8Array(32));
+		const contentKey = await crypto.subtle.importKey(
+			'raw',
+			contentKeyBuffer,
+			'AES-GCM',
+			false,
+			['encrypt', 'decrypt']
+		) as ContentKey;
+		const payload = createHeaderPayload(contentKeyBuffer);
+		contentKeyBuffer.fill(0);
+		const encPayload = new Uint8Array(await crypto.subtle.encrypt(
+			{
+				name: 'AES-GCM',
+				iv: nonce
+			},
+			await this.headerKey,
+			payload
+		));
+		payload.fill(0);
+
+		const encrypted = new Uint8Array(this.headerSize);
+		encrypted.set(nonce, 0);
+		encrypted.set(encPayload, 12);
+		return {
+			header: {
+				contentKey: contentKey,
+				nonce: nonce
+			},
+			encrypted: encrypted
+		};
+	}
+
+	async decryptHeader(data: Uint8Array){
+		const nonce = data.slice(0, 12);
+		let exportedContentKey: Uint8Array;
+		try{
+			exportedContentKey = new Uint8Array(await crypto.subtle.decrypt(
+				{
+					name: 'AES-GCM',
+					iv: nonce
+				},
+				await this.headerKey,
+				data.slice(12, this.headerSize)
+			));
+		} catch(e) {
+			throw new InvalidSignatureError(DecryptionTarget.File);
+		}
+
+		const contentKey = await crypto.subtle.importKey(
+			'raw',
+			exportedContentKey.slice(8),
+			'AES-GCM',
+			false,
+			['encrypt', 'decrypt']
+		) as ContentKey;
+		exportedContentKey.fill(0);
+
+		return {
+			contentKey: contentKey,
+			nonce: nonce
+		};
+	}
+
+	async encryptChunk(header: FileHeader, chunk: Uint8Array, chunkNumber: number){
+		const nonce = crypto.getRandomValues(new Uint8Array(12));
+		const encrypted = new Uint8Array(await crypto.subtle.encrypt(
+			{
+				name: 'AES-GCM',
+				iv: nonce,
+				additionalData: chunkAad(header, chunkNumber)
+			},
+			header.contentKey,
+			chunk
+		));
+		const result = new Uint8Array(12 + encrypted.byteLength);
+		result.set(nonce, 0);
+		result.set(encrypted, 12);
+		return result;
+	}
+
+	async decryptChunk(header: FileHeader, chunk: Uint8Array, chunkNumber: number){
+		try{
+			return new Uint8Array(await crypto.subtle.decrypt(
+				{
+					name: 'AES-GCM',
+					iv: chunk.slice(0, 12),
+					additionalData: chunkAad(header, chunkNumber)
+				},
+				header.contentKey,
+				chunk.slice(12)
+			));
+		} catch(e) {
+			throw new InvalidSignatureError(DecryptionTarget.File);
+		}
+	}
+}
+
+/**
+ * Associated data of a GCM chunk: big-endian chunk number followed by the header nonce
+ */
+function chunkAad(header: FileHeader, chunkNumber: number){
+	const aad = new Uint8Array(8 + header.nonce.byteLength);
+	aad.set(chunkNumberToBytes(chunkNumber), 0);
+	aad.set(header.nonce, 8);
+	return aad;
+}
+
+function isEqual(a: Uint8Array, b: Uint8Array){
+	if(a.byteLength !== b.byteLength) return false;
+	if(a.every((v, i) => v === b[i])) return true;
+	else return false;
+}
@@ -0,0 +1,585 @@
+#!/usr/bin/env node
+import { createReadStream } from "fs";
+import * as p from "path";
+import type { ConflictPolicy } from "./Conflicts";
+import type { DataProvider } from "./DataProvider";
+import { EncryptedFile } from "./encrypted/EncryptedFile";
+import type { EncryptedItem } from "./encrypted/EncryptedItemBase";
+import { ConflictError, DecryptionError, DecryptionTarget, ExistsError, InvalidSignatureError, ItemTypeError, NotFoundError, UnsupportedFormatError, UnsupportedKeyError } from "./Errors";
+import { checkVault, HealthFindingType } from "./HealthCheck";
+import { resolvePath, splitPath } from "./Paths";
+import { LocalStorageProvider } from "./providers/LocalStorageProvider";
+import { collect } from "./Stream";
+import type { TransferSummary } from "./Transfer";
+import type { DirID } from "./types";
+import { Vault } from "./Vault";
+
+/**
+ * Everything the command line interface reads from and writes to, so that it can be run without a terminal
+ */
+export type CliIO = {
+	/**
+	 * Data provider that vaults and local files are accessed through. Defaults to LocalStorageProvider.
+	 */
+	provider: DataProvider;
+	/**
+	 * Write output of a command, such as the content of a file
+	 */
+	stdout: (data: Uint8Array | string) => Promise<void>;
+	/**
+	 * Write errors and prompts
+	 */
+	stderr: (text: string) => void;
+	/**
+	 * Environment variables, where the vault directory and the password can be given
+	 */
+	env: {[name: string]: string | undefined};
+	/**
+	 * Ask for a password without showing what is typed
+	 */
+	prompt: (question: string) => Promise<string>;
+}
+
+const USAGE = `Usage: cryptomator-ts <command> [options]
+
+Commands:
+  create <dir>            Create a vault in a directory
+  info                    Show the settings of the vault
+  ls [path]               List a directory
+  tree [path]             List a directory and everything in it
+  cat <path>              Write the content of a file to stdout
+  get <path> <local>      Decrypt a file or directory into a local path
+  put <local> <path>      Encrypt a local file or directory into the vault
+  mkdir [-p] <path>       Create a directory
+  rm [-r] <path>          Delete a file, symlink or directory
+  mv <from> <to>          Move or rename an item
+  cp <from> <to>          Copy an item
+  passwd                  Change the password of the vault
+  check [--contents] [--fix]
+                          Look for problems in the vault, and fix them if possible
+
+Paths in the vault are cleartext paths such as /docs/report.pdf.
+If <to> or <local> is an existing directory, the item goes into it.
+
+Options:
+  --vault <dir>           Directory of the vault. Defaults to $CRYPTOMATOR_VAULT.
+  --password-env <name>   Read the password from an environment variable. Defaults to CRYPTOMATOR_PASSWORD if it is set.
+  --password-fd <fd>      Read the password from a file descriptor, such as 3 with 3<file
+  --new-password-env <name>, --new-password-fd <fd>
+                          Where passwd reads the new password from
+  --conflict <policy>     fail, overwrite, rename-with-suffix or skip, for items that already exist. Defaults to fail.
+  --concurrency <n>       Max number of files transferred at once by get and put. Defaults to 4.
+  --json                  Write results as JSON
+  -p, --parents           mkdir: Create missing parent directories
+  -r, --recursive         rm: Delete directories
+  -h, --help              Show this help
+`;
+
+const VALUE_OPTIONS = ['vault', 'password-env', 'password-fd', 'new-password-env', 'new-password-fd', 'conflict', 'concurrency'];
+const FLAG_OPTIONS = ['json', 'parents', 'recursive', 'contents', 'fix', 'help'];
+const SHORT_OPTIONS: {[short: string]: string} = {p: 'parents', r: 'recursive', h: 'help'};
+const CONFLICT_POLICIES: ConflictPolicy[] = ['fail', 'overwrite', 'rename-with-suffix', 'skip'];
+
+/**
+ * Indicates that the command line is malformed, and the usage should be shown
+ */
+class UsageError extends Error{
+	constructor(public reason: string){
+		super(reason);
+	}
+}
+
+type ParsedArgs = {
+	positional: string[];
+	options: Map<string, string | true>;
+}
+
+function parseArgs(args: string[]): ParsedArgs{
+	const parsed: ParsedArgs = {positional: [], options: new Map()};
+	for(let i = 0; i < args.length; i++){
+		const arg = args[i];
+		if(arg === '--'){
+			parsed.positional.push(...args.slice(i + 1));
+			break;
+		}
+		if(arg.startsWith('--')){
+			const eq = arg.indexOf('=');
+			const name = arg.slice(2, eq === -1 ? undefined : eq);
+			if(VALUE_OPTIONS.includes(name)){
+				const value = eq === -1 ? args[++i] : arg.slice(eq + 1);
+				if(value === undefined) throw new UsageError(`--${name} requires a value.`);
+				parsed.options.set(name, value);
+			} else if(FLAG_OPTIONS.includes(name) && eq === -1) parsed.options.set(name, true);
+			else throw new UsageError(`Unknown option: ${arg}`);
+		} else if(arg.startsWith('-') && arg.length > 1){
+			for(const short of arg.slice(1)){
+				const name = SHORT_OPTIONS[short];
+				if(!name) throw new UsageError(`Unknown option: -${short}`);
+				parsed.options.set(name, true);
+			}
+		} else parsed.positional.push(arg);
+	}
+	return parsed;
+}
+
+/**
+ * Run a command of the command line interface
+ * @param args Arguments after the name of the program, such as ['ls', '/docs', '--json']
+ * @param io Where to read and write. Defaults to the local file system and the terminal.
+ * @returns Exit code. 0 on success, 1 if the command failed, and 2 if the arguments are malformed.
+ */
+export async function runCli(args: string[], io?: Partial<CliIO>): Promise<number>{
+	const cli = new Cli({...defaultIO(), ...io});
+	try{
+		await cli.run(parseArgs(args));
+		return cli.exitCode;
+	} catch(e) {
+		if(e instanceof UsageError){
+			cli.io.stderr(`cryptomator-ts: ${e.reason}\n\n${USAGE}`);
+			return 2;
+		}
+		cli.fail(describeError(e));
+		return 1;
+	}
+}
+
+class Cli{
+	exitCode = 0;
+	private args: ParsedArgs = {positional: [], options: new Map()};
+	/**
+	 * Password the vault has been opened with
+	 */
+	private vaultPassword = '';
+
+	constructor(public io: CliIO){}
+
+	private get json(){
+		return this.args.options.has('json');
+	}
+
+	async run(args: ParsedArgs){
+		this.args = args;
+		const [command, ...rest] = args.positional;
+		if(args.options.has('help') || command === 'help'){
+			await this.io.stdout(USAGE);
+			return;
+		}
+		if(command === undefined) throw new UsageError('No command given.');
+		switch(command){
+			case 'create': return await this.create(this.take(rest, 1, 1)[0]);
+			case 'info': this.take(rest, 0, 0); return await this.info();
+			case 'ls': return await this.ls(this.take(rest, 0, 1)[0] ?? '/');
+			case 'tree': return await this.tree(this.take(rest, 0, 1)[0] ?? '/');
+			case 'cat': return await this.cat(this.take(rest, 1, 1)[0]);
+			case 'get': return await this.get(...this.take(rest, 2, 2) as [string, string]);
+			case 'put': return await this.put(...this.take(rest, 2, 2) as [string, string]);
+			case 'mkdir': return await this.mkdir(this.take(rest, 1, 1)[0]);
+			case 'rm': return await this.rm(this.take(rest, 1, 1)[0]);
+			case 'mv': return await this.mv(...this.take(rest, 2, 2) as [string, string]);
+			case 'cp': return await this.cp(...this.take(rest, 2, 2) as [string, string]);
+			case 'passwd': this.take(rest, 0, 0); return await this.passwd();
+			case 'check': this.take(rest, 0, 0); return await this.check();
+			default: throw new UsageError(`Unknown command: ${command}`);
+		}
+	}
+
+	/**
+	 * Report an error, and make the command exit with 1
+	 */
+	fail(message: string){
+		this.exitCode = 1;
+		if(this.json) this.io.stderr(JSON.stringify({error: message}) + '\n');
+		else this.io.stderr(`cryptomator-ts: ${message}\n`);
+	}
+
+	private take(args: string[], min: number, max: number){
+		if(args.length < min) throw new UsageError('Missing arguments.');
+		if(args.length > max) throw new UsageError(`Unexpected argument: ${args[max]}`);
+		return args;
+	}
+
+	private async print(text: string, json: unknown){
+		if(this.json) await this.io.stdout(JSON.stringify(json, null, 2) + '\n');
+		else if(text) await this.io.stdout(text + '\n');
+	}
+
+	private get conflict(): ConflictPolicy{
+		const policy = this.args.options.get('conflict') ?? 'fail';
+		if(!CONFLICT_POLICIES.includes(policy as ConflictPolicy)) throw new UsageError(`Unknown conflict policy: ${policy}`);
+		return policy as ConflictPolicy;
+	}
+
+	private get concurrency(){
+		const value = this.args.options.get('concurrency');
+		if(value === undefined) return 4;
+		const concurrency = Number(value);
+		if(!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError('--concurrency must be a positive integer.');
+		return concurrency;
+	}
+
+	private get vaultDir(){
+		const dir = this.args.options.get('vault') ?? this.io.env.CRYPTOMATOR_VAULT;
+		if(typeof(dir) !== 'string') throw new UsageError('No vault given. Use --vault or set CRYPTOMATOR_VAULT.');
+		return this.localPath(dir);
+	}
+
+	private localPath(path: string){
+		return p.resolve(path);
+	}
+
+	/**
+	 * Get a password from the options, the environment or a prompt
+	 * @param prefix Prefix of the options, such as "new-" for the new password of passwd
+	 * @param confirm If true, a prompted password has to be typed twice
+	 */
+	private async password(prefix: '' | 'new-', question: string, confirm: boolean){
+		const fd = this.args.options.get(`${prefix}password-fd`);
+		if(typeof(fd) === 'string'){
+			const number = Number(fd);
+			if(!Number.isInteger(number) || number < 0) throw new UsageError(`--${prefix}password-fd must be a file descriptor.`);
+			return await readPasswordFd(number);
+		}
+		const env = this.args.options.get(`${prefix}password-env`);
+		if(typeof(env) === 'string'){
+			const password = this.io.env[env];
+			if(password === undefined) throw new UsageError(`Environment variable ${env} is not set.`);
+			return password;
+		}
+		if(!prefix && this.io.env.CRYPTOMATOR_PASSWORD !== undefined) return this.io.env.CRYPTOMATOR_PASSWORD;
+		const password = await this.io.prompt(question);
+		if(confirm && await this.io.prompt('Confirm password: ') !== password) throw new Error('Passwords do not match.');
+		return password;
+	}
+
+	private async open(){
+		const dir = this.vaultDir;
+		this.vaultPassword = await this.password('', 'Password: ', false);
+		return await Vault.open(this.io.provider, dir, this.vaultPassword, p.basename(dir));
+	}
+
+	/**
+	 * Find where an item goes, following cp: into the target if it is an existing directory, otherwise as the target
+	 * @param vault Vault the target is in
+	 * @param path Cleartext path of the target
+	 * @param name Name of the item, used if the target is a directory
+	 * @returns ID and cleartext path of the directory the item goes into, and the name it gets
+	 * @throws NotFoundError if the parent of the target does not exist
+	 */
+	private async target(vault: Vault, path: string, name: string): Promise<{dirId: DirID, dirPath: string, name: string}>{
+		const existing = await resolvePath(vault, path).catch(e => {
+			if(e instanceof NotFoundError) return null;
+			throw e;
+		});
+		const segments = splitPath(path);
+		if(existing?.type === 'd') return {dirId: await existing.getDirId(), dirPath: joinPath(segments), name: name};
+		const last = segments.pop() as string;
+		const parent = await resolvePath(vault, joinPath(segments));
+		if(parent.type !== 'd') throw new ItemTypeError(joinPath(segments), 'd');
+		return {dirId: await parent.getDirId(), dirPath: joinPath(segments), name: last};
+	}
+
+	private async create(path: string){
+		const dir = this.localPath(path);
+		const password = await this.password('', 'New password: ', true);
+		await this.io.provider.createDir(dir, true);
+		const vault = await Vault.create(this.io.provider, dir, password, {
+			create: {
+				name: null,
+				createHere: true
+			}
+		});
+		await this.print(`Created vault ${vault.name} in ${vault.dir}`, {name: vault.name, dir: vault.dir});
+	}
+
+	private async info(){
+		const vault = await this.open();
+		const info = {
+			name: vault.name,
+			dir: vault.dir,
+			masterkeyFile: vault.masterkeyFile,
+			...vault.vaultSettings
+		};
+		await this.print(Object.entries(info).map(([key, value]) => `${key}: ${value}`).join('\n'), info);
+	}
+
+	private async ls(path: string){
+		const vault = await this.open();
+		const item = await resolvePath(vault, path);
+		const items = item.type === 'd' ? await item.listItems() : [item];
+		items.sort((a, b) => a.decryptedName.localeCompare(b.decryptedName));
+		const entries = await Promise.all(items.map(describeItem));
+		const lines = entries.map(e => {
+			const size = e.size === null ? '-' : `${e.size}`;
+			const name = e.type === 'd' ? `${e.name}/` : e.type === 's' ? `${e.name} -> ${e.target}` : e.name;
+			return `${e.type} ${size.padStart(12)} ${e.lastMod} ${name}`;
+		});
+		await this.print(lines.join('\n'), entries);
+	}
+
+	private async tree(path: string){
+		const vault = await this.open();
+		type TreeNode = Awaited<ReturnType<typeof describeItem>> & {children?: TreeNode[]};
+		const walk = async (item: EncryptedItem): Promise<TreeNode> => {
+			const node: TreeNode = await describeItem(item);
+			if(item.type === 'd') node.children = await Promise.all((await item.listItems()).sort((a, b) => a.decryptedName.localeCompare(b.decryptedName)).map(walk));
+			return node;
+		};
+		const root = await walk(await resolvePath(vault, path));
+		const lines: string[] = [];
+		const draw = (node: TreeNode, depth: number) => {
+			const name = node.type === 'd' ? `${node.name}/` : node.type === 's' ? `${node.name} -> ${node.target}` : node.name;
+			lines.push('  '.repeat(depth) + name);
+			for(const child of node.children ?? []) draw(child, depth + 1);
+		};
+		draw(root, 0);
+		await this.print(lines.join('\n'), root);
+	}
+
+	private async cat(path: string){
+		const vault = await this.open();
+		const item = await resolvePath(vault, path);
+		if(item.type !== 'f') throw new ItemTypeError(path, 'f');
+		for await (const chunk of item.decryptContentStream()) await this.io.stdout(chunk);
+	}
+
+	private async get(path: string, local: string){
+		const vault = await this.open();
+		const provider = this.io.provider;
+		const item = await resolvePath(vault, path);
+		let target = this.localPath(local);
+		const existing = await statLocal(provider, target);
+		// The root has no name, so its contents go into the target itself
+		if(existing?.type === 'd' && item.decryptedName && splitPath(path).length) target = p.join(target, item.decryptedName);
+		if(item.type === 'd'){
+			const summary = await vault.exportTree(item, provider, target, {conflict: this.conflict, concurrency: this.concurrency});
+			return await this.summarize(summary);
+		}
+		if(item.type === 's') throw new ItemTypeError(path, 'f');
+		if(await provider.exists(target)){
+			const conflict = this.conflict;
+			if(conflict === 'skip') return await this.summarize({files: 0, skipped: 1, dirs: 0, bytes: 0, failures: []});
+			if(conflict === 'fail') throw new ExistsError(target);
+			if(conflict === 'rename-with-suffix') target = await freeLocalPath(provider, target);
+		}
+		let bytes = 0;
+		const counted = async function*(){
+			for await (const chunk of item.decryptContentStream()){
+				bytes += chunk.byteLength;
+				yield chunk;
+			}
+		};
+		try{
+			if(provider.writeFileStream) await provider.writeFileStream(target, counted());
+			else await provider.writeFile(target, await collect(counted()));
+		} catch(e) {
+			// Chunks written before one failed verification are not left behind
+			await Promise.allSettled([provider.removeFile(target)]);
+			throw e;
+		}
+		if(provider.setLastMod) await provider.setLastMod(target, item.lastMod);
+		await this.summarize({files: 1, skipped: 0, dirs: 0, bytes: bytes, failures: []});
+	}
+
+	private async put(local: string, path: string){
+		const vault = await this.open();
+		const provider = this.io.provider;
+		const source = this.localPath(local);
+		const stat = await statLocal(provider, source);
+		if(!stat) throw new NotFoundError(source);
+		const to = await this.target(vault, path, p.basename(source));
+		if(stat.type === 'd'){
+			const existing = await vault.lookup(to.name, to.dirId);
+			let dirId: DirID;
+			let created = 0;
+			if(existing?.type === 'd') dirId = await existing.getDirId();
+			else {
+				dirId = await (await vault.createDirectory(to.name, to.dirId, undefined, this.conflict === 'rename-with-suffix' ? 'rename-with-suffix' : 'fail')).getDirId();
+				created = 1;
+			}
+			const summary = await vault.importTree(provider, source, dirId, {conflict: this.conflict, concurrency: this.concurrency});
+			return await this.summarize({...summary, dirs: summary.dirs + created});
+		}
+		if(this.conflict === 'skip'){
+			const existing = await vault.lookup(to.name, to.dirId);
+			if(existing?.type === 'f') return await this.summarize({files: 0, skipped: 1, dirs: 0, bytes: 0, failures: []});
+		}
+		if(provider.readFileStream) await EncryptedFile.encryptStream(vault, to.name, to.dirId, provider.readFileStream(source), undefined, this.conflict);
+		else await EncryptedFile.encrypt(vault, to.name, to.dirId, await provider.readFile(source), undefined, this.conflict);
+		await this.summarize({files: 1, skipped: 0, dirs: 0, bytes: stat.size ?? 0, failures: []});
+	}
+
+	private async summarize(summary: TransferSummary){
+		const failures = summary.failures.map(f => ({path: f.path, error: describeError(f.error)}));
+		if(failures.length) this.exitCode = 1;
+		if(!this.json) for(const failure of failures) this.io.stderr(`cryptomator-ts: ${failure.path}: ${failure.error}\n`);
+		const parts = [`${summary.files} files`, `${summary.bytes} bytes`, `${summary.dirs} directories created`, `${summary.skipped} skipped`, `${failures.length} failed`];
+		await this.print(parts.join(', '), {...summary, failures});
+	}
+
+	private async mkdir(path: string){
+		const vault = await this.open();
+		await vault.mkdir(path, {recursive: this.args.options.has('parents')});
+		await this.print('', {path});
+	}
+
+	private async rm(path: string){
+		const vault = await this.open();
+		const item = await resolvePath(vault, path);
+		if(item.type === 'd' && !this.args.options.has('recursive')) throw new ItemTypeError(path, 'f');
+		await vault.remove(path);
+		await this.print('', {path});
+	}
+
+	private async mv(from: string, to: string){
+		const vault = await this.open();
+		const item = await resolvePath(vault, from);
+		const target = await this.target(vault, to, item.decryptedName);
+		// Moving and renaming at once, so that only the final name is checked for conflicts
+		if(target.dirId !== item.parentId) await item.move(target.dirId, this.conflict, target.name);
+		else if(target.name !== item.decryptedName) await item.rename(target.name, this.conflict);
+		await this.print('', {from, to: joinPath([...splitPath(target.dirPath), item.decryptedName])});
+	}
+
+	private async cp(from: string, to: string){
+		const vault = await this.open();
+		const item = await resolvePath(vault, from);
+		const target = await this.target(vault, to, item.decryptedName);
+		const copied = await vault.copy(item, target.dirId, target.name, undefined, this.conflict);
+		await this.print('', {from, to: joinPath([...splitPath(target.dirPath), copied.decryptedName])});
+	}
+
+	private async passwd(){
+		const vault = await this.open();
+		const newPassword = await this.password('new-', 'New password: ', true);
+		const backup = await vault.changePassword(this.vaultPassword, newPassword);
+		await this.print(`Password changed. The old masterkey file has been backed up to ${backup}`, {backup});
+	}
+
+	private async check(){
+		const vault = await this.open();
+		const findings = await checkVault(vault, {checkContents: this.args.options.has('contents')});
+		const results: {type: string, path: string, fixed: boolean, error?: string}[] = [];
+		for(const finding of findings){
+			const result: typeof results[number] = {type: HealthFindingType[finding.type], path: finding.path, fixed: false};
+			if('error' in finding) result.error = describeError(finding.error);
+			if(this.args.options.has('fix') && finding.fix){
+				await finding.fix();
+				result.fixed = true;
+			}
+			results.push(result);
+		}
+		if(results.some(r => !r.fixed)) this.exitCode = 1;
+		const lines = results.map(r => `${r.fixed ? 'Fixed' : 'Found'} ${r.type}: ${r.path}${r.error ? ` (${r.error})` : ''}`);
+		await this.print(lines.length ? lines.join('\n') : 'No problems found.', results);
+	}
+}
+
+async function describeItem(item: EncryptedItem){
+	return {
+		name: item.decryptedName,
+		type: item.type,
+		size: item.type === 'f' ? await item.getSize() : null,
+		lastMod: item.lastMod.toISOString(),
+		target: item.type === 's' ? await item.getTarget() : undefined
+	};
+}
+
+function joinPath(segments: string[]){
+	return '/' + segments.join('/');
+}
+
+async function statLocal(provider: DataProvider, path: string){
+	if(provider.stat) return await provider.stat(path);
+	if(!await provider.exists(path)) return null;
+	return (await provider.listItems(p.dirname(path))).find(i => i.name === p.basename(path)) ?? null;
+}
+
+async function freeLocalPath(provider: DataProvider, path: string){
+	const ext = p.extname(path);
+	const base = path.slice(0, path.length - ext.length);
+	for(let i = 1; ; i++){
+		const candidate = `${base} (${i})${ext}`;
+		if(!await provider.exists(candidate)) return candidate;
+	}
+}
+
+/**
+ * Read a password from a file descriptor until it is closed. A trailing newline is not part of the password.
+ */
+async function readPasswordFd(fd: number){
+	const chunks: Buffer[] = [];
+	for await (const chunk of createReadStream('', {fd})) chunks.push(chunk as Buffer);
+	return Buffer.concat(chunks).toString('utf8').replace(/\r?\n$/, '');
+}
+
+/**
+ * Turn an error into a message for the user, as errors of this library mostly carry details instead of messages
+ */
+export function describeError(e: unknown): string{
+	if(e instanceof ConflictError) return `${e.existing.decryptedName}: Already exists`;
+	if(e instanceof ExistsError) return `${e.which}: Already exists`;
+	if(e instanceof NotFoundError) return `${e.path}: No such file or directory`;
+	if(e instanceof ItemTypeError) return `${e.path}: ${e.expected === 'f' ? 'Is a directory' : 'Not a directory'}`;
+	if(e instanceof DecryptionError){
+		if(e.type === DecryptionTarget.Vault) return 'Wrong password';
+		return `${(e.target as {fullName: string}).fullName}: Cannot be decrypted`;
+	}
+	if(e instanceof InvalidSignatureError){
+		if(e.type === DecryptionTarget.Vault) return 'The vault configuration has been tampered with';
+		return 'File content failed verification';
+	}
+	if(e instanceof UnsupportedFormatError) return `Unsupported vault format: ${e.format}`;
+	if(e instanceof UnsupportedKeyError) return `Unsupported key: ${e.keyId}`;
+	if(e instanceof Error) return e.message || e.constructor.name;
+	return String(e);
+}
+
+function defaultIO(): CliIO{
+	return {
+		provider: new LocalStorageProvider(),
+		stdout: (data) => new Promise((resolve, reject) => process.stdout.write(data, (e) => e ? reject(e) : resolve())),
+		stderr: (text) => process.stderr.write(text),
+		env: process.env,
+		prompt: promptHidden
+	};
+}
+
+/**
+ * Ask for a password on the terminal without echoing it
+ * @throws Error if stdin is not a terminal
+ */
+async function promptHidden(question: string){
+	const stdin = process.stdin;
+	if(!stdin.isTTY) throw new Error('No password given. Use --password-env or --password-fd when not running in a terminal.');
+	process.stderr.write(question);
+	stdin.setRawMode(true);
+	stdin.resume();
+	try{
+		return await new Promise<string>((resolve, reject) => {
+			let password = '';
+			const onData = (data: Buffer) => {
+				for(const char of data.toString('utf8')){
+					if(char === '\r' || char === '\n' || char === '\u0004'){
+						stdin.off('data', onData);
+						resolve(password);
+						return;
+					}
+					if(char === '\u0003'){
+						stdin.off('data', onData);
+						reject(new Error('Cancelled.'));
+						return;
+					}
+					if(char === '\u007f' || char === '\b') password = password.slice(0, -1);
+					else password += char;
+				}
+			};
+			stdin.on('data', onData);
+		});
+	} finally {
+		stdin.setRawMode(false);
+		stdin.pause();
+		process.stderr.write('\n');
+	}
+}
+
+if(require.main === module) runCli(process.argv.slice(2)).then(code => process.exitCode = code);
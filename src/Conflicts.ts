@@ -0,0 +1,94 @@
+import { v4 } from "uuid";
+import { ConflictError } from "./Errors";
+import type { EncryptedItem, EncryptedItemBase } from "./encrypted/EncryptedItemBase";
+import type { DirID, ItemPath } from "./types";
+import type { Vault } from "./Vault";
+
+/**
+ * What to do when an item with the same name already exists where an item is written, renamed, moved or copied to
+ * - fail: Throw ConflictError
+ * - overwrite: Replace the existing item. Directories are replaced along with everything in them.
+ *   The existing item is only deleted once the new item has been written, and is kept if writing fails.
+ * - rename-with-suffix: Write the item with a name that is not taken, such as "report (1).pdf"
+ * - skip: Leave the existing item as it is, and do not write anything
+ *
+ * Items are never overwritten or skipped in favor of an item of another type, such as a file in place of a directory.
+ * ConflictError is thrown for them instead, unless the policy is rename-with-suffix.
+ */
+export type ConflictPolicy = 'fail' | 'overwrite' | 'rename-with-suffix' | 'skip';
+
+/**
+ * Look for an item with the same name as an item that is about to be written, and apply a conflict policy
+ * @param vault Vault to look in
+ * @param name Name of the item that is about to be written
+ * @param parent ID of the directory it goes into
+ * @param type Type of the item that is about to be written
+ * @param policy What to do if the name is taken
+ * @param self Item that is being renamed or moved, which is not in conflict with itself
+ * @returns Name to write the item with, and the existing item if it should be overwritten or skipped
+ * @throws ConflictError if the name is taken and the policy is fail, or the existing item is of another type
+ */
+export async function checkConflict<T extends EncryptedItem['type']>(
+	vault: Vault,
+	name: string,
+	parent: DirID,
+	type: T,
+	policy: ConflictPolicy,
+	self?: EncryptedItemBase
+): Promise<{name: string, existing: Extract<EncryptedItem, {type: T}> | null}>{
+	const existing = await vault.lookup(name, parent);
+	if(!existing || existing.fullName === self?.fullName) return {name, existing: null};
+	if(policy === 'rename-with-suffix'){
+		for(let i = 1; ; i++){
+			const suffixed = addSuffix(name, `(${i})`, type === 'f');
+			if(!await vault.lookup(suffixed, parent)) return {name: suffixed, existing: null};
+		}
+	}
+	if(policy === 'fail' || existing.type !== type) throw new ConflictError(existing);
+	return {name, existing: existing as Extract<EncryptedItem, {type: T}>};
+}
+
+/**
+ * Add a suffix to a name, before the extension for files
+ * @param name Name such as report.pdf
+ * @param suffix Suffix such as (1)
+ * @param isFile If true, the suffix goes before the extension, such as report (1).pdf
+ * @returns The name with the suffix
+ */
+export function addSuffix(name: string, suffix: string, isFile: boolean){
+	const dot = name.lastIndexOf('.');
+	// Names that start with a dot, such as .gitignore, have no extension
+	if(!isFile || dot <= 0) return `${name} ${suffix}`;
+	return `${name.slice(0, dot)} ${suffix}${name.slice(dot)}`;
+}
+
+/**
+ * Move an item that is about to be overwritten out of the way, so that it can be put back if writing the new item fails.
+ * It is kept under a temporary name that listings ignore, as it does not end with .c9r or .c9s.
+ * @param existing Item that is about to be overwritten
+ * @returns Functions that delete the item for good once the new item is in place, or put it back
+ */
+export async function setAside(existing: EncryptedItem){
+	const vault = existing.vault;
+	const provider = vault.provider;
+	// The ID is needed to delete the contents later, and cannot be read once the link has been moved
+	if(existing.type === 'd') await existing.getDirId();
+	const from = existing.fullName;
+	const aside = `${from}.${v4()}.tmp` as ItemPath;
+	await provider.move(from, aside);
+	vault.cache.invalidate(existing.parentId as DirID);
+	return {
+		commit: async () => {
+			if(existing.type === 'd'){
+				// The object is no longer usable anyway, so it is pointed at the temporary name to delete it with everything in it
+				existing.fullName = aside;
+				await vault.deleteDir(existing);
+			} else if(existing.type === 'f' && !existing.shortened) await provider.removeFile(aside);
+			else await provider.removeDir(aside);
+		},
+		restore: async () => {
+			await provider.move(aside, from);
+			vault.cache.invalidate(existing.parentId as DirID);
+		}
+	};
+}
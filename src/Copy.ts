@@ -0,0 +1,137 @@
+import { checkConflict, ConflictPolicy, setAside } from "./Conflicts";
+import { EncryptedFile } from "./encrypted/EncryptedFile";
+import type { EncryptedDir } from "./encrypted/EncryptedDir";
+import type { EncryptedItem } from "./encrypted/EncryptedItemBase";
+import { collect } from "./Stream";
+import type { DirID } from "./types";
+import type { Vault } from "./Vault";
+
+/**
+ * Progress of a copy, reported after each item is copied and while file content is copied
+ */
+export type CopyProgress = {
+	/**
+	 * Number of items copied so far
+	 */
+	copied: number;
+	/**
+	 * Number of items to copy, including the copied item itself
+	 */
+	total: number;
+	/**
+	 * Number of bytes of file content copied so far.
+	 * This is the encrypted size when files are copied as-is within a vault, and the decrypted size when they are copied to another vault.
+	 */
+	bytes: number;
+}
+
+type CopyNode = {
+	item: EncryptedItem;
+	children: CopyNode[];
+}
+
+/**
+ * Copy an item into a directory. Directories are copied recursively, and get new IDs.
+ * Within a vault, file content is copied as it is. Into another vault, files are decrypted and encrypted again.
+ * @param item Item to copy
+ * @param vault Vault to copy the item into
+ * @param to ID of the directory the copy goes into
+ * @param name Name of the copy
+ * @param onProgress Called whenever an item or a chunk of file content has been copied
+ * @param conflict What to do if an item with the name already exists in the directory
+ * @returns The copy, or the existing item if it was skipped
+ * @throws ConflictError if an item with the name already exists in the directory, and cannot be overwritten
+ * @throws RangeError if a directory is copied into itself
+ * @throws RangeError if the overwritten directory contains the item
+ */
+export async function copyItem(
+	item: EncryptedItem,
+	vault: Vault,
+	to: DirID,
+	name: string,
+	onProgress?: (progress: CopyProgress) => void,
+	conflict: ConflictPolicy = 'fail'
+): Promise<EncryptedItem>{
+	const resolved = await checkConflict(vault, name, to, item.type, conflict);
+	if(resolved.existing){
+		if(conflict === 'skip') return resolved.existing;
+		// Overwriting an item with itself leaves it as it is
+		if(item.vault === vault && resolved.existing.fullName === item.fullName) return item;
+		// The item would be deleted along with the directory it is in
+		const existing = resolved.existing;
+		if(item.vault === vault && existing.type === 'd' && item.parentId !== null && await existing.contains(item.parentId)){
+			throw new RangeError('A directory cannot be overwritten by an item in it.');
+		}
+	}
+	// The whole tree is listed first, so that the total is known, and nothing that is created during the copy is copied again
+	const dirIds = new Set<DirID>();
+	const discover = async (item: EncryptedItem): Promise<CopyNode> => {
+		if(item.type !== 'd') return {item, children: []};
+		const dirId = await item.getDirId();
+		dirIds.add(dirId);
+		return {item, children: await Promise.all((await item.listItems()).map(discover))};
+	};
+	const tree = await discover(item);
+	if(item.vault === vault && dirIds.has(to)) throw new RangeError('A directory cannot be copied into itself.');
+
+	const count = (node: CopyNode): number => node.children.reduce((sum, c) => sum + count(c), 1);
+	const progress: CopyProgress = {copied: 0, total: count(tree), bytes: 0};
+	const report = () => {
+		if(onProgress) onProgress({...progress});
+	};
+	// Directory that has been created for the copied item itself, which has to go if copying anything in it fails
+	let created: EncryptedDir | null = null;
+	// Nothing is in the way, as an overwritten item is set aside first, and everything else goes into new directories
+	const copy = async (node: CopyNode, to: DirID, name: string): Promise<EncryptedItem> => {
+		const item = node.item;
+		let copied: EncryptedItem;
+		if(item.type === 'f') copied = await copyFile(item, vault, to, name, 'fail', (bytes) => {
+			progress.bytes += bytes;
+			report();
+		});
+		else if(item.type === 's') copied = await vault.createSymlink(name, await item.getTarget(), to, 'fail');
+		else {
+			copied = await vault.createDirectory(name, to, undefined, 'fail');
+			if(node === tree) created = copied;
+			const dirId = await copied.getDirId();
+			await Promise.all(node.children.map(c => copy(c, dirId, c.item.decryptedName)));
+		}
+		progress.copied++;
+		report();
+		return copied;
+	};
+	// An overwritten item is only deleted once everything has been copied, and is put back if anything fails
+	const aside = resolved.existing ? await setAside(resolved.existing) : null;
+	let copied: EncryptedItem;
+	try{
+		copied = await copy(tree, to, resolved.name);
+	} catch(e) {
+		if(aside){
+			if(created) await Promise.allSettled([vault.deleteDir(created)]);
+			await Promise.allSettled([aside.restore()]);
+		}
+		throw e;
+	}
+	if(aside) await aside.commit();
+	return copied;
+}
+
+/**
+ * Copy the content of a file into a new file
+ * @param onData Called with the number of bytes whenever a chunk has been read from the original file
+ */
+async function copyFile(file: EncryptedFile, vault: Vault, to: DirID, name: string, conflict: ConflictPolicy, onData: (bytes: number) => void){
+	const counted = async function*(source: AsyncIterable<Uint8Array>){
+		for await (const chunk of source){
+			onData(chunk.byteLength);
+			yield chunk;
+		}
+	};
+	if(file.vault !== vault) return await EncryptedFile.encryptStream(vault, name, to, counted(file.decryptContentStream()), undefined, conflict);
+	// Names are bound to the parent directory, but the content is not, so it can be copied without decrypting
+	return await EncryptedFile.upload(vault, name, to, async (path) => {
+		const content = counted(file.readEncryptedFileStream());
+		if(vault.provider.writeFileStream) await vault.provider.writeFileStream(path, content);
+		else await vault.provider.writeFile(path, await collect(content));
+	}, conflict);
+}
@@ -16,4 +16,31 @@ export type DataProvider = {
 	exists: (path: string) => Promise<boolean>;
 	rename: (path: string, newPath: string) => Promise<void>;
 	move: (path: string, newPath: string) => Promise<void>;
+	/**
+	 * Optional, read a file chunk by chunk instead of loading the whole file into memory.
+	 * Chunks can be of any size. If not implemented, readFile is used instead.
+	 */
+	readFileStream?: (path: string, progress?: ProgressCallback) => AsyncIterable<Uint8Array>;
+	/**
+	 * Optional, read part of a file.
+	 * Should return fewer bytes than requested only if the end of the file is reached.
+	 * If not implemented, the whole file is read with readFile and sliced.
+	 */
+	readFileRange?: (path: string, start: number, length: number) => Promise<Uint8Array>;
+	/**
+	 * Optional, write a file chunk by chunk instead of requiring the whole content in memory.
+	 * If not implemented, chunks are collected and passed to writeFile.
+	 * As the final size is not known in advance, total passed to the progress callback is -1.
+	 */
+	writeFileStream?: (path: string, content: AsyncIterable<Uint8Array>, progress?: ProgressCallback) => Promise<void>;
+	/**
+	 * Optional, get a single item without listing its parent.
+	 * Should return null if nothing exists at the path. If not implemented, the parent is listed instead.
+	 */
+	stat?: (path: string) => Promise<Item | null>;
+	/**
+	 * Optional, set the modification time of a file or directory.
+	 * If not implemented, items keep the time they were written at.
+	 */
+	setLastMod?: (path: string, lastMod: Date) => Promise<void>;
 }
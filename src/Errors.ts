@@ -1,3 +1,4 @@
+import type { EncryptedItem } from "./encrypted/EncryptedItemBase";
 import type { Item } from "./types";
 
 export enum DecryptionTarget {
@@ -32,3 +33,86 @@ export class ExistsError extends Error{
 		super();
 	}
 }
+
+/**
+ * Indicates a recovery key that is malformed
+ * @param word The word that is not in the word list, or null if the number of words or the checksum is wrong
+ */
+export class InvalidRecoveryKeyError extends Error{
+	constructor(public word: string | null){
+		super();
+	}
+}
+
+/**
+ * Indicates that the vault cannot be opened because the key ID in vault.cryptomator is not supported
+ */
+export class UnsupportedKeyError extends Error{
+	constructor(public keyId: string){
+		super();
+	}
+}
+
+/**
+ * Indicates that the vault is of a format that cannot be opened
+ * @param format Format of the vault, as stored in masterkey.cryptomator or vault.cryptomator
+ */
+export class UnsupportedFormatError extends Error{
+	constructor(public format: number){
+		super();
+	}
+}
+
+/**
+ * Indicates that nothing exists at the given path
+ * @param path Cleartext path within the vault, or path within a data provider
+ */
+export class NotFoundError extends Error{
+	constructor(public path: string){
+		super();
+	}
+}
+
+/**
+ * Indicates that the item at the given path is not of the expected type, such as reading a directory as a file
+ * @param path Cleartext path within the vault, or path within a data provider
+ * @param expected Type the item was expected to be
+ */
+export class ItemTypeError extends Error{
+	constructor(public path: string, public expected: 'f' | 'd'){
+		super();
+	}
+}
+
+/**
+ * Indicates that a request to a remote storage failed
+ * @param status HTTP status code
+ * @param method HTTP method of the request
+ * @param path Path within the data provider the request was for
+ */
+export class HttpError extends Error{
+	constructor(public status: number, public method: string, public path: string){
+		super();
+	}
+}
+
+/**
+ * Indicates that a call to a data provider took too long
+ * @param method Name of the method that was called
+ * @param timeout Milliseconds the call was allowed to take
+ */
+export class TimeoutError extends Error{
+	constructor(public method: string, public timeout: number){
+		super();
+	}
+}
+
+/**
+ * Indicates that an item with the same name already exists in the directory an item was going to be written into
+ * @param existing The item that is in the way
+ */
+export class ConflictError extends ExistsError{
+	constructor(public existing: EncryptedItem){
+		super(existing.decryptedName);
+	}
+}
\ No newline at end of file
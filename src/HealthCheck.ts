@@ -0,0 +1,259 @@
+import type { ProgressCallback } from "./DataProvider";
+import { EncryptedFile } from "./encrypted/EncryptedFile";
+import { EncryptedSymlink } from "./encrypted/EncryptedSymlink";
+import type { DirID, Item, ItemPath } from "./types";
+import type { Vault } from "./Vault";
+
+/**
+ * Kinds of problems the health check can find.
+ * OrphanDir: Encrypted folder that no dir.c9r points to. Can be fixed by linking it into the "Recovered" folder if it has a backup directory ID.
+ * MissingDir: dir.c9r points to an encrypted folder that does not exist. Can be fixed by creating an empty folder.
+ * MissingName: Shortened (.c9s) item without name.c9s. Can be fixed by deleting the item, as its name cannot be recovered.
+ * UndecryptableName: Item name that cannot be decrypted.
+ * CorruptFile: File or symlink with a header or chunk that fails HMAC verification.
+ * MissingDirIdBackup: Encrypted folder without dirid.c9r. Can be fixed by writing it.
+ */
+export enum HealthFindingType{
+	OrphanDir,
+	MissingDir,
+	MissingName,
+	UndecryptableName,
+	CorruptFile,
+	MissingDirIdBackup
+}
+
+type FindingBase = {
+	/**
+	 * Encrypted item or folder the problem was found in
+	 */
+	path: ItemPath;
+	/**
+	 * Automated fix for this problem, if there is one
+	 */
+	fix?: () => Promise<void>;
+}
+
+export type HealthFinding = FindingBase & ({
+	type: HealthFindingType.OrphanDir;
+	/**
+	 * ID read from the backup directory ID, null if the backup does not exist or cannot be decrypted
+	 */
+	dirId: DirID | null;
+} | {
+	type: HealthFindingType.MissingDir;
+	dirId: DirID;
+	parent: DirID;
+	name: string;
+} | {
+	type: HealthFindingType.MissingName;
+	parent: DirID;
+} | {
+	type: HealthFindingType.UndecryptableName;
+	parent: DirID;
+	error: unknown;
+} | {
+	type: HealthFindingType.CorruptFile;
+	parent: DirID;
+	name: string;
+	error: unknown;
+} | {
+	type: HealthFindingType.MissingDirIdBackup;
+	dirId: DirID;
+});
+
+export type HealthCheckOpts = {
+	/**
+	 * If true, every file and symlink is downloaded and all of its chunks are verified.
+	 * Defaults to false, as this may take a long time.
+	 */
+	checkContents?: boolean;
+	/**
+	 * Name of the folder in root that orphaned directories are linked into. Defaults to "Recovered".
+	 */
+	recoveryDirName?: string;
+	/**
+	 * Callback that is called whenever a directory has been checked
+	 */
+	onProgress?: ProgressCallback;
+}
+
+/**
+ * Walk the whole vault, and report problems found in it
+ * @param vault Vault to check
+ * @param options Health check options
+ * @returns List of problems. Empty if the vault is healthy.
+ */
+export async function checkVault(vault: Vault, options?: HealthCheckOpts): Promise<HealthFinding[]>{
+	const provider = vault.provider;
+	const findings: HealthFinding[] = [];
+	const allDirs = new Set<string>();
+	for(const prefix of await provider.listItems(`${vault.dir}/d`)){
+		if(prefix.type !== 'd') continue;
+		for(const dir of await provider.listItems(`${vault.dir}/d/${prefix.name}`)){
+			if(dir.type === 'd') allDirs.add(`${vault.dir}/d/${prefix.name}/${dir.name}`);
+		}
+	}
+
+	const reached = new Set<string>();
+	const toCheck: DirID[] = ['' as DirID];
+	let checked = 0;
+	while(toCheck.length){
+		const dirId = toCheck.pop() as DirID;
+		const folder = await vault.getDir(dirId);
+		if(reached.has(folder)) continue;
+		reached.add(folder);
+		const items = await provider.listItems(folder);
+		if(!items.some(i => i.name === 'dirid.c9r')){
+			findings.push({
+				type: HealthFindingType.MissingDirIdBackup,
+				path: folder,
+				dirId: dirId,
+				fix: async () => await vault.writeDirIdBackup(dirId)
+			});
+		}
+		for(const item of items){
+			if(!item.name.endsWith('.c9r') && !item.name.endsWith('.c9s') || item.name === 'dirid.c9r') continue;
+			const shortened = item.name.endsWith('.c9s');
+			const contents = item.type === 'd' ? await provider.listItems(item.fullName) : [];
+			if(shortened && !contents.some(i => i.name === 'name.c9s')){
+				findings.push({
+					type: HealthFindingType.MissingName,
+					path: item.fullName,
+					parent: dirId,
+					fix: async () => await provider.removeDir(item.fullName)
+				});
+				continue;
+			}
+			let name: string;
+			try{
+				name = await vault.decryptFileName(item, dirId);
+			} catch(e) {
+				findings.push({
+					type: HealthFindingType.UndecryptableName,
+					path: item.fullName,
+					parent: dirId,
+					error: e
+				});
+				continue;
+			}
+			if(contents.some(i => i.name === 'dir.c9r')){
+				const childId = await provider.readFileString(`${item.fullName}/dir.c9r`) as DirID;
+				const childFolder = await vault.getDir(childId);
+				if(allDirs.has(childFolder)) toCheck.push(childId);
+				else findings.push({
+					type: HealthFindingType.MissingDir,
+					path: item.fullName,
+					dirId: childId,
+					parent: dirId,
+					name: name,
+					fix: async () => {
+						await provider.createDir(childFolder, true);
+						await vault.writeDirIdBackup(childId);
+					}
+				});
+			} else if(options?.checkContents){
+				const error = await verifyContent(vault, item, name, dirId, shortened, contents);
+				if(error !== null) findings.push({
+					type: HealthFindingType.CorruptFile,
+					path: item.fullName,
+					parent: dirId,
+					name: name,
+					error: error
+				});
+			}
+		}
+		checked++;
+		if(options?.onProgress) options.onProgress(checked, checked + toCheck.length);
+	}
+
+	// Folders that are only reachable from other orphaned folders will be recovered along with them
+	const linked = new Set<string>();
+	for(const folder of allDirs){
+		if(reached.has(folder)) continue;
+		for(const item of await provider.listItems(folder)){
+			if(item.type !== 'd' || !await provider.exists(`${item.fullName}/dir.c9r`)) continue;
+			linked.add(await vault.getDir(await provider.readFileString(`${item.fullName}/dir.c9r`) as DirID));
+		}
+	}
+
+	let recoveryDir: Promise<DirID> | null = null;
+	const getRecoveryDir = () => {
+		if(!recoveryDir) recoveryDir = findOrCreateDir(vault, options?.recoveryDirName ?? 'Recovered');
+		return recoveryDir;
+	}
+	for(const folder of allDirs){
+		if(reached.has(folder) || linked.has(folder)) continue;
+		let dirId: DirID | null;
+		try{
+			dirId = await vault.readDirIdBackup(folder);
+			// The backup may belong to a different folder if it has been copied around
+			if(dirId !== null && await vault.getDir(dirId) !== folder) dirId = null;
+		} catch(e) {
+			dirId = null;
+		}
+		const finding: HealthFinding = {
+			type: HealthFindingType.OrphanDir,
+			path: folder as ItemPath,
+			dirId: dirId
+		};
+		if(dirId !== null){
+			const id = dirId;
+			finding.fix = async () => await linkDir(vault, id, await getRecoveryDir());
+		}
+		findings.push(finding);
+	}
+	// Fixes change the vault behind the back of the cache
+	for(const finding of findings){
+		const fix = finding.fix;
+		if(fix) finding.fix = async () => {
+			await fix();
+			vault.cache.clear();
+		};
+	}
+	return findings;
+}
+
+/**
+ * Verify all chunks of a file or symlink
+ * @returns Error thrown while verifying, or null if the content is intact
+ */
+async function verifyContent(vault: Vault, item: Item, name: string, parent: DirID, shortened: boolean, contents: Item[]): Promise<unknown>{
+	try{
+		if(item.type === 'f' || contents.some(i => i.name === 'contents.c9r')){
+			const file = new EncryptedFile(vault, item.name, item.fullName, name, parent, item.lastMod, shortened);
+			for await (const _ of file.decryptContentStream());
+		} else if(contents.some(i => i.name === 'symlink.c9r')){
+			const symlink = new EncryptedSymlink(vault, item.name, item.fullName, name, parent, item.lastMod, shortened);
+			await symlink.getTarget();
+		}
+		return null;
+	} catch(e) {
+		return e;
+	}
+}
+
+/**
+ * Find a directory in root with a given name, or create one if it does not exist
+ * @returns ID of the directory
+ */
+async function findOrCreateDir(vault: Vault, name: string): Promise<DirID>{
+	const {path} = await vault.getItemPath(name, '' as DirID);
+	if(await vault.provider.exists(`${path}/dir.c9r`)) return await vault.provider.readFileString(`${path}/dir.c9r`) as DirID;
+	const dir = await vault.createDirAtRoot(name);
+	return await dir.getDirId();
+}
+
+/**
+ * Create a directory entry that points to an existing encrypted folder. The directory ID is used as its name.
+ * @param dirId ID of the directory to link
+ * @param parent Directory the entry will be created in
+ */
+async function linkDir(vault: Vault, dirId: DirID, parent: DirID){
+	const {encName, path, shortened} = await vault.getItemPath(dirId, parent);
+	await vault.provider.createDir(path, true);
+	const tasks = [
+		vault.provider.writeFile(`${path}/dir.c9r`, dirId)
+	];
+	if(shortened) tasks.push(vault.provider.writeFile(`${path}/name.c9s`, encName));
+	await Promise.all(tasks);
+}
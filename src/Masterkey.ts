@@ -0,0 +1,193 @@
+import { scrypt } from "scrypt-js";
+import { Base64 } from "js-base64";
+import type { DataProvider } from "./DataProvider";
+import { DecryptionError, DecryptionTarget, ExistsError } from "./Errors";
+import type { EncryptionKey, MACKey } from "./types";
+
+/**
+ * Content of masterkey.cryptomator
+ */
+export type Masterkey = {
+	primaryMasterKey: string;
+	hmacMasterKey: string;
+	scryptBlockSize: number;
+	scryptCostParam: number;
+	scryptSalt: string;
+	versionMac: string;
+	version: number;
+}
+
+/**
+ * Part of masterkey.cryptomator that depends on the password
+ */
+export type WrappedKeys = Pick<Masterkey, 'primaryMasterKey' | 'hmacMasterKey' | 'scryptBlockSize' | 'scryptCostParam' | 'scryptSalt'>;
+
+/**
+ * Derive the key encryption key from a password
+ * @param password Vault password
+ * @param salt Salt stored in masterkey.cryptomator
+ * @param costParam Scrypt cost parameter
+ * @param blockSize Scrypt block size
+ * @param usage Whether the key will be used to wrap or unwrap keys
+ * @returns AES-KW key
+ */
+export async function deriveKek(password: string, salt: Uint8Array, costParam: number, blockSize: number, usage: 'wrapKey' | 'unwrapKey'){
+	const kekBuffer = await scrypt(new TextEncoder().encode(password), salt, costParam, blockSize, 1, 32);
+	const kek = await crypto.subtle.importKey('raw', kekBuffer, 'AES-KW', false, [usage]);
+	kekBuffer.fill(0);
+	return kek;
+}
+
+/**
+ * Wrap the vault keys with a password, using a newly generated salt
+ * @param encKey Encryption key of the vault
+ * @param macKey MAC key of the vault
+ * @param password Password to wrap the keys with
+ * @param costParam Scrypt cost parameter
+ * @param blockSize Scrypt block size
+ * @returns Wrapped keys and scrypt parameters, ready to be put into masterkey.cryptomator
+ */
+export async function wrapKeys(encKey: EncryptionKey, macKey: MACKey, password: string, costParam: number, blockSize: number): Promise<WrappedKeys>{
+	const salt = crypto.getRandomValues(new Uint8Array(32));
+	const kek = await deriveKek(password, salt, costParam, blockSize, 'wrapKey');
+	const wrappedEncKey = new Uint8Array(await crypto.subtle.wrapKey('raw', encKey, kek, 'AES-KW'));
+	const wrappedMacKey = new Uint8Array(await crypto.subtle.wrapKey('raw', macKey, kek, 'AES-KW'));
+	return {
+		primaryMasterKey: Base64.fromUint8Array(wrappedEncKey),
+		hmacMasterKey: Base64.fromUint8Array(wrappedMacKey),
+		scryptBlockSize: blockSize,
+		scryptCostParam: costParam,
+		scryptSalt: Base64.fromUint8Array(salt)
+	};
+}
+
+/**
+ * Unwrap the vault keys stored in masterkey.cryptomator
+ * @param mk Parsed masterkey.cryptomator
+ * @param password Vault password
+ * @returns Encryption key and MAC key of the vault
+ * @throws DecryptionError if the given password is wrong
+ */
+export async function unwrapKeys(mk: Masterkey, password: string){
+	const kek = await deriveKek(password, Base64.toUint8Array(mk.scryptSalt), mk.scryptCostParam, mk.scryptBlockSize, 'unwrapKey');
+	try{
+		const encKey = await crypto.subtle.unwrapKey(
+			'raw',
+			Base64.toUint8Array(mk.primaryMasterKey),
+			kek,
+			'AES-KW',
+			'AES-CTR',
+			true,
+			['encrypt', 'decrypt']
+		) as EncryptionKey;
+		const macKey = await crypto.subtle.unwrapKey(
+			'raw',
+			Base64.toUint8Array(mk.hmacMasterKey),
+			kek,
+			'AES-KW',
+			{
+				name: 'HMAC',
+				hash: {name: 'SHA-256'}
+			},
+			true,
+			['sign']
+		) as MACKey;
+		return {encKey: encKey, macKey: macKey};
+	} catch(e) {
+		throw new DecryptionError(DecryptionTarget.Vault, null);
+	}
+}
+
+/**
+ * Import raw vault keys
+ * @param rawKey Encryption key followed by MAC key, 64 bytes in total
+ * @returns Encryption key and MAC key of the vault
+ */
+export async function importRawKeys(rawKey: Uint8Array){
+	const encKey = await crypto.subtle.importKey('raw', rawKey.slice(0, 32), 'AES-CTR', true, ['encrypt', 'decrypt']) as EncryptionKey;
+	const macKey = await crypto.subtle.importKey('raw', rawKey.slice(32, 64), {
+		name: 'HMAC',
+		hash: {name: 'SHA-256'}
+	}, true, ['sign']) as MACKey;
+	return {encKey: encKey, macKey: macKey};
+}
+
+/**
+ * Export vault keys, the opposite of importRawKeys
+ * @param encKey Encryption key of the vault
+ * @param macKey MAC key of the vault
+ * @returns Encryption key followed by MAC key, 64 bytes in total. Fill it with zeros once it is no longer needed.
+ */
+export async function exportRawKeys(encKey: EncryptionKey, macKey: MACKey){
+	const rawKey = new Uint8Array(64);
+	rawKey.set(new Uint8Array(await crypto.subtle.exportKey('raw', encKey)), 0);
+	rawKey.set(new Uint8Array(await crypto.subtle.exportKey('raw', macKey)), 32);
+	return rawKey;
+}
+
+/**
+ * Sign the version field of masterkey.cryptomator the way the official app does, which is HMAC of the version as a big-endian 32 bit integer.
+ * Vaults of format 7 and earlier rely on this to detect downgrades.
+ * @param macKey MAC key of the vault
+ * @param version Value of the version field
+ * @returns Base64 encoded signature
+ */
+export async function signMasterkeyVersion(macKey: MACKey, version: number){
+	const data = new Uint8Array(4);
+	new DataView(data.buffer).setUint32(0, version);
+	const versionMac = new Uint8Array(await crypto.subtle.sign('HMAC', macKey, data));
+	return Base64.fromUint8Array(versionMac);
+}
+
+/**
+ * Copy masterkey.cryptomator next to itself, named the same way as the official app does (masterkey.cryptomator.XXXXXXXX.bkup)
+ * @param provider Data provider
+ * @param path Absolute path of masterkey.cryptomator
+ * @returns Absolute path of the backup
+ *
+ * The backup is not written again if a backup of the identical file already exists.
+ */
+export async function backupMasterkey(provider: DataProvider, path: string){
+	const content = await provider.readFile(path);
+	const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', content));
+	const id = Array.from(hash.slice(0, 4)).map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+	const backupPath = `${path}.${id}.bkup`;
+	if(!await provider.exists(backupPath)) await provider.writeFile(backupPath, content);
+	return backupPath;
+}
+
+/**
+ * Replace masterkey.cryptomator without ever leaving a partially written file behind
+ * @param provider Data provider
+ * @param path Absolute path of masterkey.cryptomator
+ * @param mk New content
+ *
+ * The new file is written under a temporary name first, and then renamed over the old one.
+ * If the provider cannot rename over an existing file, the old file is moved aside first, and put back if the new one still cannot take its place.
+ * Make a backup with backupMasterkey before calling this.
+ * @throws Whatever the provider throws if the new file cannot take the place of the old one. The old file is left as it is.
+ */
+export async function replaceMasterkey(provider: DataProvider, path: string, mk: Masterkey){
+	const tempPath = `${path}.tmp`;
+	const oldPath = `${path}.old`;
+	await provider.writeFile(tempPath, JSON.stringify(mk));
+	try{
+		try{
+			await provider.rename(tempPath, path);
+			return;
+		} catch(e) {
+			if(!(e instanceof ExistsError)) throw e;
+		}
+		await provider.rename(path, oldPath);
+		try{
+			await provider.rename(tempPath, path);
+		} catch(e) {
+			await Promise.allSettled([provider.rename(oldPath, path)]);
+			throw e;
+		}
+	} catch(e) {
+		await Promise.allSettled([provider.removeFile(tempPath)]);
+		throw e;
+	}
+	await Promise.allSettled([provider.removeFile(oldPath)]);
+}
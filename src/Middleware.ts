@@ -0,0 +1,329 @@
+import type { DataProvider } from "./DataProvider";
+import { HttpError, TimeoutError } from "./Errors";
+
+/**
+ * Function that wraps a data provider into another one, such as those returned by retry, timeout, logging and rateLimit
+ */
+export type ProviderMiddleware = (provider: DataProvider) => DataProvider;
+
+/**
+ * A call to a method of a data provider
+ */
+export type ProviderCall = {
+	method: keyof DataProvider;
+	args: unknown[];
+}
+
+export type CallHandlers = {
+	/**
+	 * Called for every method that returns a promise
+	 * @param run Calls the wrapped provider, with different arguments if given. Can be called more than once, or not at all.
+	 */
+	call?: <T>(call: ProviderCall, run: (args?: unknown[]) => Promise<T>) => Promise<T>;
+	/**
+	 * Called for readFileStream
+	 * @param open Calls readFileStream of the wrapped provider, and can be called again to start over
+	 */
+	stream?: (call: ProviderCall, open: () => AsyncIterable<Uint8Array>) => AsyncIterable<Uint8Array>;
+}
+
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+export type RetryOpts = {
+	/**
+	 * Max number of retries after the first attempt. Defaults to 3.
+	 */
+	retries?: number;
+	/**
+	 * Milliseconds to wait before the first retry, doubled for each retry after it. Defaults to 100.
+	 */
+	delay?: number;
+	/**
+	 * Max milliseconds to wait before a retry. Defaults to 10000.
+	 */
+	maxDelay?: number;
+	/**
+	 * Errors that should be retried. Defaults to HttpError, TimeoutError and the TypeError fetch throws on network errors.
+	 * HttpError is only retried for 408, 429 and 5xx, as other status codes do not change by trying again.
+	 * Other TypeErrors are not retried by default, as they are usually bugs.
+	 */
+	errors?: ErrorClass[];
+	/**
+	 * Called before waiting for a retry
+	 * @param attempt Number of the retry, starting from 1
+	 */
+	onRetry?: (call: ProviderCall, error: unknown, attempt: number) => void;
+}
+
+export type RateLimitOpts = {
+	/**
+	 * Number of calls allowed per second in the long run
+	 */
+	rate: number;
+	/**
+	 * Number of calls that can be made at once after being idle. Must be at least 1. Defaults to rate, or 1 if rate is lower.
+	 */
+	burst?: number;
+}
+
+export type ProviderLogEntry = {
+	/**
+	 * Sequential number of the call, shared by its start and end
+	 */
+	id: number;
+	phase: 'start' | 'end';
+	method: keyof DataProvider;
+	path: string;
+	/**
+	 * Destination of rename and move
+	 */
+	newPath?: string;
+	/**
+	 * Milliseconds the call took, on end
+	 */
+	duration?: number;
+	/**
+	 * What the call threw, on end
+	 */
+	error?: unknown;
+}
+
+const PROMISE_METHODS = [
+	'readFileString', 'listItems', 'readFile', 'writeFile', 'createDir', 'removeFile', 'removeDir', 'exists', 'rename', 'move',
+	'readFileRange', 'writeFileStream', 'stat', 'setLastMod'
+] as const;
+
+/**
+ * Wrap a data provider with middlewares. The result is a data provider that can be passed to Vault.open or Vault.create.
+ * @param provider Provider to wrap
+ * @param middlewares Middlewares from the outermost. For example, with logging then retry, each call is logged once no matter how many times it is retried.
+ * @returns Provider with the methods of DataProvider. Any other methods of the original provider are not available on it.
+ */
+export function withMiddleware(provider: DataProvider, ...middlewares: ProviderMiddleware[]): DataProvider{
+	return middlewares.reduceRight((p, m) => m(p), provider);
+}
+
+/**
+ * Create a middleware from handlers of calls. Optional methods are only available if the wrapped provider has them.
+ * @param handlers Handlers for calls. Calls without a handler are passed through.
+ */
+export function intercept(handlers: CallHandlers): ProviderMiddleware{
+	return (provider) => {
+		const wrapped: {[method: string]: unknown} = {};
+		for(const method of PROMISE_METHODS){
+			const fn = provider[method] as ((...args: unknown[]) => Promise<unknown>) | undefined;
+			if(!fn) continue;
+			wrapped[method] = (...args: unknown[]) => {
+				const run = (replaced?: unknown[]) => fn.apply(provider, replaced ?? args);
+				return handlers.call ? handlers.call({method, args}, run) : run();
+			};
+		}
+		const readFileStream = provider.readFileStream;
+		if(readFileStream){
+			wrapped['readFileStream'] = (...args: unknown[]) => {
+				const open = () => readFileStream.apply(provider, args as Parameters<typeof readFileStream>);
+				return handlers.stream ? handlers.stream({method: 'readFileStream', args}, open) : open();
+			};
+		}
+		return wrapped as DataProvider;
+	};
+}
+
+/**
+ * Retry failed calls with exponential backoff.
+ * Streams from readFileStream are opened again and continue where they failed. writeFileStream is never retried, as its content can only be read once.
+ */
+export function retry(options?: RetryOpts): ProviderMiddleware{
+	const retries = options?.retries ?? 3;
+	const delay = options?.delay ?? 100;
+	const maxDelay = options?.maxDelay ?? 10000;
+	const errors = options?.errors ?? [HttpError, TimeoutError];
+	const shouldRetry = (e: unknown) => {
+		if(!options?.errors && isNetworkError(e)) return true;
+		if(!errors.some(c => e instanceof c)) return false;
+		if(e instanceof HttpError && !options?.errors) return e.status === 408 || e.status === 429 || e.status >= 500;
+		return true;
+	};
+	const backoff = async (call: ProviderCall, e: unknown, attempt: number) => {
+		if(attempt > retries || !shouldRetry(e)) throw e;
+		if(options?.onRetry) options.onRetry(call, e, attempt);
+		await sleep(Math.min(maxDelay, delay * 2 ** (attempt - 1)));
+	};
+	return intercept({
+		call: async (call, run) => {
+			if(call.method === 'writeFileStream') return await run();
+			for(let attempt = 1; ; attempt++){
+				try{
+					return await run();
+				} catch(e) {
+					await backoff(call, e, attempt);
+				}
+			}
+		},
+		stream: async function*(call, open){
+			let delivered = 0;
+			for(let attempt = 1; ; attempt++){
+				// Skip what has already been delivered before failing
+				let skip = delivered;
+				try{
+					for await (let chunk of open()){
+						if(skip){
+							if(chunk.byteLength <= skip){
+								skip -= chunk.byteLength;
+								continue;
+							}
+							chunk = chunk.subarray(skip);
+							skip = 0;
+						}
+						delivered += chunk.byteLength;
+						yield chunk;
+					}
+					return;
+				} catch(e) {
+					await backoff(call, e, attempt);
+				}
+			}
+		}
+	});
+}
+
+/**
+ * Reject calls that take too long with TimeoutError. The call itself cannot be cancelled, and may still complete later.
+ * For readFileStream, the limit applies to each chunk. writeFileStream is not limited, as its duration depends on how fast the content is produced.
+ * @param ms Milliseconds allowed per call
+ */
+export function timeout(ms: number): ProviderMiddleware{
+	return intercept({
+		call: async (call, run) => call.method === 'writeFileStream' ? await run() : await withTimeout(run(), call.method, ms),
+		stream: async function*(call, open){
+			const iterator = open()[Symbol.asyncIterator]();
+			try{
+				while(true){
+					const {done, value} = await withTimeout(iterator.next(), call.method, ms);
+					if(done) return;
+					yield value;
+				}
+			} finally {
+				// Let the wrapped stream clean up if it is left early
+				if(iterator.return) iterator.return().catch(() => undefined);
+			}
+		}
+	});
+}
+
+/**
+ * Report every call when it starts and ends
+ * @param log Called with a start entry and an end entry for each call. For readFileStream, the call ends when the stream is finished.
+ */
+export function logging(log: (entry: ProviderLogEntry) => void): ProviderMiddleware{
+	let nextId = 0;
+	const getEntry = (call: ProviderCall) => {
+		const entry: ProviderLogEntry = {id: nextId++, phase: 'start', method: call.method, path: call.args[0] as string};
+		if(call.method === 'rename' || call.method === 'move') entry.newPath = call.args[1] as string;
+		return entry;
+	};
+	return intercept({
+		call: async (call, run) => {
+			const entry = getEntry(call);
+			const start = Date.now();
+			log(entry);
+			try{
+				const result = await run();
+				log({...entry, phase: 'end', duration: Date.now() - start});
+				return result;
+			} catch(e) {
+				log({...entry, phase: 'end', duration: Date.now() - start, error: e});
+				throw e;
+			}
+		},
+		stream: async function*(call, open){
+			const entry = getEntry(call);
+			const start = Date.now();
+			log(entry);
+			let error: unknown;
+			try{
+				yield* open();
+			} catch(e) {
+				error = e;
+				throw e;
+			} finally {
+				log({...entry, phase: 'end', duration: Date.now() - start, ...(error === undefined ? {} : {error})});
+			}
+		}
+	});
+}
+
+/**
+ * Limit how often calls are made with a token bucket. Calls over the limit wait for their turn in the order they were made.
+ * Opening a stream with readFileStream counts as one call.
+ */
+export function rateLimit(options: RateLimitOpts): ProviderMiddleware{
+	if(!(options.rate > 0)) throw new RangeError('Rate must be greater than 0.');
+	// A bucket that cannot hold a whole token would never let a call through
+	const burst = options.burst ?? Math.max(1, options.rate);
+	if(!(burst >= 1)) throw new RangeError('Burst must be at least 1.');
+	const bucket = new TokenBucket(options.rate, burst);
+	return intercept({
+		call: async (call, run) => {
+			await bucket.take();
+			return await run();
+		},
+		stream: async function*(call, open){
+			await bucket.take();
+			yield* open();
+		}
+	});
+}
+
+class TokenBucket{
+	private tokens: number;
+	private last = Date.now();
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(private rate: number, private capacity: number){
+		this.tokens = capacity;
+	}
+
+	/**
+	 * Wait until a token is available, and use it
+	 */
+	take(){
+		const turn = this.queue.then(() => this.wait());
+		this.queue = turn;
+		return turn;
+	}
+
+	private async wait(){
+		this.refill();
+		while(this.tokens < 1){
+			await sleep(Math.ceil((1 - this.tokens) / this.rate * 1000));
+			this.refill();
+		}
+		this.tokens--;
+	}
+
+	private refill(){
+		const now = Date.now();
+		this.tokens = Math.min(this.capacity, this.tokens + (now - this.last) / 1000 * this.rate);
+		this.last = now;
+	}
+}
+
+/**
+ * Check if an error is what fetch throws when the request could not be made, such as "fetch failed" in Node.js or "Failed to fetch" in Chrome
+ */
+function isNetworkError(e: unknown){
+	return e instanceof TypeError && /fetch failed|failed to fetch|networkerror|load failed/i.test(e.message);
+}
+
+function sleep(ms: number){
+	return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+function withTimeout<T>(promise: Promise<T>, method: string, ms: number){
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const expired = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => reject(new TimeoutError(method, ms)), ms);
+	});
+	return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
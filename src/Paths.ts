@@ -0,0 +1,154 @@
+import type { ConflictPolicy } from "./Conflicts";
+import { ExistsError, ItemTypeError, NotFoundError } from "./Errors";
+import { EncryptedDir } from "./encrypted/EncryptedDir";
+import { EncryptedFile } from "./encrypted/EncryptedFile";
+import type { EncryptedItem } from "./encrypted/EncryptedItemBase";
+import type { Vault } from "./Vault";
+
+/**
+ * Information about an item, returned by Vault.stat
+ */
+export type ItemStat = {
+	type: 'f' | 'd' | 's';
+	/**
+	 * Decrypted name of the item, empty for the root directory
+	 */
+	name: string;
+	lastMod: Date;
+	/**
+	 * Size of the decrypted content for files. Null for directories and symlinks, or if the data provider does not report sizes.
+	 */
+	size: number | null;
+}
+
+/**
+ * Split a cleartext path into names. Empty segments and "." are ignored, and ".." goes up one level.
+ * @param path Path such as /a/b/c. Paths are always relative to the root of the vault, whether they start with / or not.
+ * @returns Names from the root
+ */
+export function splitPath(path: string){
+	const segments: string[] = [];
+	for(const segment of path.split('/')){
+		if(segment === '' || segment === '.') continue;
+		if(segment === '..') segments.pop();
+		else segments.push(segment);
+	}
+	return segments;
+}
+
+/**
+ * Walk down from the root directory
+ * @param vault Vault to look in
+ * @param segments Names of the directories from the root
+ * @param path Original path, for errors
+ * @throws NotFoundError if any of the directories does not exist, or is not a directory
+ */
+async function walk(vault: Vault, segments: string[], path: string){
+	let dir = await vault.getRootDir();
+	for(const segment of segments){
+		const item = await vault.lookup(segment, await dir.getDirId());
+		if(!item || item.type !== 'd') throw new NotFoundError(path);
+		dir = item;
+	}
+	return dir;
+}
+
+/**
+ * Find the item at a cleartext path
+ * @param vault Vault to look in
+ * @param path Cleartext path of the item
+ * @returns The item. For the root directory, the same object as getRootDir returns.
+ * @throws NotFoundError if nothing exists at the path
+ */
+export async function resolvePath(vault: Vault, path: string): Promise<EncryptedItem>{
+	const segments = splitPath(path);
+	const name = segments.pop();
+	const parent = await walk(vault, segments, path);
+	if(name === undefined) return parent;
+	const item = await vault.lookup(name, await parent.getDirId());
+	if(!item) throw new NotFoundError(path);
+	return item;
+}
+
+/**
+ * Decrypt the file at a cleartext path
+ * @throws NotFoundError if nothing exists at the path
+ * @throws ItemTypeError if the item is not a file
+ */
+export async function readFileAt(vault: Vault, path: string){
+	const item = await resolvePath(vault, path);
+	if(item.type !== 'f') throw new ItemTypeError(path, 'f');
+	return await item.decryptContent();
+}
+
+/**
+ * Encrypt a file into a cleartext path. An existing file at the path is overwritten, unless another conflict policy is given.
+ * @returns The written file
+ * @throws NotFoundError if the parent directory does not exist
+ * @throws ItemTypeError if a directory or a symlink exists at the path, and the policy is not rename-with-suffix
+ * @throws ConflictError if a file exists at the path, and the policy is fail
+ */
+export async function writeFileAt(vault: Vault, path: string, data: Uint8Array | string, conflict: ConflictPolicy = 'overwrite'){
+	const segments = splitPath(path);
+	const name = segments.pop();
+	if(name === undefined) throw new ItemTypeError(path, 'f');
+	const parent = await walk(vault, segments, path);
+	const existing = await vault.lookup(name, await parent.getDirId());
+	if(existing && existing.type !== 'f' && conflict !== 'rename-with-suffix') throw new ItemTypeError(path, 'f');
+	return await EncryptedFile.encrypt(vault, name, parent, data, undefined, conflict);
+}
+
+/**
+ * Create a directory at a cleartext path
+ * @param options.recursive If true, missing parent directories are created, and an existing directory at the path is returned instead of throwing
+ * @returns The directory
+ * @throws NotFoundError if the parent directory does not exist, and recursive is not set
+ * @throws ExistsError if something already exists at the path
+ */
+export async function mkdirAt(vault: Vault, path: string, options?: {recursive?: boolean}){
+	const segments = splitPath(path);
+	let dir = await vault.getRootDir();
+	if(!segments.length){
+		if(options?.recursive) return dir;
+		throw new ExistsError(path);
+	}
+	for(let i = 0; i < segments.length; i++){
+		const last = i === segments.length - 1;
+		const item = await vault.lookup(segments[i], await dir.getDirId());
+		if(item){
+			if(item.type !== 'd' || last && !options?.recursive) throw new ExistsError(path);
+			dir = item;
+		} else if(last || options?.recursive){
+			dir = await dir.createDirectory(segments[i]);
+		} else throw new NotFoundError(path);
+	}
+	return dir;
+}
+
+/**
+ * Delete the item at a cleartext path. Directories are deleted along with everything in them.
+ * @throws NotFoundError if nothing exists at the path
+ * @throws RangeError if the path points to the root directory
+ */
+export async function removeAt(vault: Vault, path: string){
+	if(!splitPath(path).length) throw new RangeError('The root directory cannot be removed.');
+	const item = await resolvePath(vault, path);
+	if(item.type === 'f') await item.deleteFile();
+	else if(item.type === 's') await item.deleteSymlink();
+	else await item.deleteDir();
+}
+
+/**
+ * Get information about the item at a cleartext path
+ * @throws NotFoundError if nothing exists at the path
+ */
+export async function statAt(vault: Vault, path: string): Promise<ItemStat>{
+	const item = await resolvePath(vault, path);
+	const isRoot = item instanceof EncryptedDir && item.parentId === null;
+	return {
+		type: item.type,
+		name: isRoot ? '' : item.decryptedName,
+		lastMod: item.lastMod,
+		size: item.type === 'f' ? await item.getSize() : null
+	};
+}
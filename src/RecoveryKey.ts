@@ -0,0 +1,87 @@
+import { InvalidRecoveryKeyError } from "./Errors";
+
+/**
+ * Recovery keys are encoded in the same way the official app does:
+ * 64 bytes of raw keys (encryption key followed by MAC key) and the 2 low bytes of their CRC32 in little-endian order make 66 bytes,
+ * and every 3 bytes are split into two 12 bit indices into a list of 4096 words, resulting in 44 words.
+ *
+ * The word list is not included in this library. To be compatible with the official app, pass its word list (4096words_en.txt) as-is.
+ */
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for(let i = 0; i < 256; i++){
+		let c = i;
+		for(let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+		table[i] = c >>> 0;
+	}
+	return table;
+})();
+
+function crc32(data: Uint8Array){
+	let crc = 0xFFFFFFFF;
+	for(const b of data) crc = CRC_TABLE[(crc ^ b) & 0xFF] ^ (crc >>> 8);
+	return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function checkWordList(wordList: string[]){
+	if(wordList.length !== 4096 || new Set(wordList).size !== 4096) throw new RangeError('Word list must contain 4096 unique words.');
+}
+
+/**
+ * Encode raw vault keys into a recovery key
+ * @param rawKey Encryption key followed by MAC key, 64 bytes in total
+ * @param wordList List of 4096 words
+ * @returns 44 words separated by a space
+ */
+export function encodeRecoveryKey(rawKey: Uint8Array, wordList: string[]){
+	checkWordList(wordList);
+	if(rawKey.byteLength !== 64) throw new RangeError('Raw key must be 64 bytes long.');
+	const padded = new Uint8Array(66);
+	padded.set(rawKey, 0);
+	const crc = crc32(rawKey);
+	padded[64] = crc & 0xFF;
+	padded[65] = (crc >>> 8) & 0xFF;
+	const words: string[] = [];
+	for(let i = 0; i < padded.byteLength; i += 3){
+		const buf = padded[i] << 16 | padded[i + 1] << 8 | padded[i + 2];
+		words.push(wordList[buf >>> 12 & 0xFFF], wordList[buf & 0xFFF]);
+	}
+	padded.fill(0);
+	return words.join(' ');
+}
+
+/**
+ * Decode a recovery key into raw vault keys
+ * @param recoveryKey Words separated by whitespace
+ * @param wordList List of 4096 words the recovery key was created with
+ * @returns Encryption key followed by MAC key, 64 bytes in total
+ * @throws InvalidRecoveryKeyError if a word is not in the list, the number of words is wrong, or the checksum does not match
+ */
+export function decodeRecoveryKey(recoveryKey: string, wordList: string[]){
+	checkWordList(wordList);
+	const indices = new Map(wordList.map((w, i) => [w, i]));
+	const words = recoveryKey.trim().toLowerCase().split(/\s+/);
+	if(words.length !== 44) throw new InvalidRecoveryKeyError(null);
+	const padded = new Uint8Array(66);
+	for(let i = 0; i < words.length; i += 2){
+		const first = indices.get(words[i]);
+		const second = indices.get(words[i + 1]);
+		if(first === undefined) throw new InvalidRecoveryKeyError(words[i]);
+		if(second === undefined) throw new InvalidRecoveryKeyError(words[i + 1]);
+		const buf = first << 12 | second;
+		const offset = i / 2 * 3;
+		padded[offset] = buf >>> 16 & 0xFF;
+		padded[offset + 1] = buf >>> 8 & 0xFF;
+		padded[offset + 2] = buf & 0xFF;
+	}
+	const rawKey = padded.slice(0, 64);
+	const crc = crc32(rawKey);
+	const valid = padded[64] === (crc & 0xFF) && padded[65] === ((crc >>> 8) & 0xFF);
+	padded.fill(0);
+	if(!valid){
+		rawKey.fill(0);
+		throw new InvalidRecoveryKeyError(null);
+	}
+	return rawKey;
+}
@@ -0,0 +1,135 @@
+import type { DataProvider } from "./DataProvider";
+import { intercept } from "./Middleware";
+
+/**
+ * Order in which waiting tasks are started. Tasks with the same priority are started in the order they were scheduled.
+ * High: Listing and looking up items, so that browsing stays responsive during long operations
+ * Normal: Everything else
+ * Low: Deleting the contents of directories
+ */
+export enum TaskPriority{
+	High,
+	Normal,
+	Low
+}
+
+/**
+ * Limits how many tasks run at once. Each vault has one, which every call to its data provider goes through.
+ * Tasks must not wait for other tasks of the same scheduler, or they may wait forever once the limit is reached.
+ */
+export class TaskScheduler{
+	private running = 0;
+	private queues: (() => void)[][] = [[], [], []];
+
+	/**
+	 * @param concurrency Max number of tasks that run at once, or -1 for no limit
+	 * @throws RangeError if concurrency is neither -1 nor a positive integer
+	 */
+	constructor(public concurrency: number){
+		if(concurrency !== -1 && !(Number.isInteger(concurrency) && concurrency > 0)) throw new RangeError('Concurrency must be -1 or a positive integer.');
+	}
+
+	/**
+	 * Number of tasks that are currently running
+	 */
+	get active(){
+		return this.running;
+	}
+
+	/**
+	 * Number of tasks waiting to start
+	 */
+	get pending(){
+		return this.queues.reduce((sum, q) => sum + q.length, 0);
+	}
+
+	/**
+	 * Wait for a free slot, and take it
+	 * @param priority Priority of the task
+	 * @returns Function that gives the slot back. It must be called exactly once.
+	 */
+	async acquire(priority = TaskPriority.Normal): Promise<() => void>{
+		if(this.concurrency === -1 || this.running < this.concurrency){
+			this.running++;
+		} else {
+			// The slot is handed over by release, so running stays the same
+			await new Promise<void>(resolve => this.queues[priority].push(resolve));
+		}
+		let released = false;
+		return () => {
+			if(released) return;
+			released = true;
+			const next = this.queues.find(q => q.length)?.shift();
+			if(next) next();
+			else this.running--;
+		};
+	}
+
+	/**
+	 * Run a task once a slot is free
+	 * @param task Function that starts the task
+	 * @param priority Priority of the task
+	 * @returns What the task returns
+	 */
+	async run<T>(task: () => Promise<T>, priority = TaskPriority.Normal): Promise<T>{
+		const release = await this.acquire(priority);
+		try{
+			return await task();
+		} finally {
+			release();
+		}
+	}
+
+	/**
+	 * Wrap a data provider, so that every call to it is run by this scheduler.
+	 * Reading each chunk of readFileStream counts as a separate task, and writeFileStream gives its slot back while it waits for content,
+	 * so that streams can be piped between providers of the same scheduler.
+	 * @param provider Provider to wrap
+	 * @param priority Priority of the calls
+	 */
+	wrap(provider: DataProvider, priority = TaskPriority.Normal): DataProvider{
+		const scheduler = this;
+		return intercept({
+			call: async (call, run) => {
+				if(call.method !== 'writeFileStream') return await this.run(run, priority);
+				let release = await this.acquire(priority);
+				let finished = false;
+				const content = call.args[1] as AsyncIterable<Uint8Array>;
+				const paused = async function*(){
+					const iterator = content[Symbol.asyncIterator]();
+					while(true){
+						release();
+						let result: IteratorResult<Uint8Array>;
+						try{
+							result = await iterator.next();
+						} finally {
+							release = await scheduler.acquire(priority);
+							// The provider has given up on the content in the meantime
+							if(finished) release();
+						}
+						if(result.done) return;
+						yield result.value;
+					}
+				};
+				try{
+					return await run([call.args[0], paused(), ...call.args.slice(2)]);
+				} finally {
+					finished = true;
+					release();
+				}
+			},
+			stream: async function*(call, open){
+				const iterator = open()[Symbol.asyncIterator]();
+				try{
+					while(true){
+						const result = await scheduler.run(() => iterator.next(), priority);
+						if(result.done) return;
+						yield result.value;
+					}
+				} finally {
+					if(iterator.return) await iterator.return();
+				}
+			}
+		})(provider);
+	}
+}
@@ -0,0 +1,107 @@
+/**
+ * Anything that can be consumed chunk by chunk.
+ * Chunks may be of any size; use StreamReader to read them in fixed sizes.
+ */
+export type StreamSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+/**
+ * Convert a stream source into an async iterable
+ * @param source ReadableStream or async iterable
+ * @returns Async iterable that yields the same chunks
+ */
+export function toAsyncIterable(source: StreamSource): AsyncIterable<Uint8Array>{
+	if(Symbol.asyncIterator in source) return source as AsyncIterable<Uint8Array>;
+	const stream = source as ReadableStream<Uint8Array>;
+	return (async function* (){
+		const reader = stream.getReader();
+		try{
+			while(true){
+				const {done, value} = await reader.read();
+				if(done) return;
+				yield value;
+			}
+		} finally {
+			reader.releaseLock();
+		}
+	})();
+}
+
+/**
+ * Reads a stream in arbitrarily sized pieces, regardless of how the source has chunked the data.
+ * Only the data needed to satisfy the current read is kept in memory.
+ */
+export class StreamReader{
+	private iterator: AsyncIterator<Uint8Array>;
+	private buffered: Uint8Array[] = [];
+	private bufferedLength = 0;
+	private ended = false;
+
+	constructor(source: StreamSource){
+		this.iterator = toAsyncIterable(source)[Symbol.asyncIterator]();
+	}
+
+	/**
+	 * Read the next part of the stream
+	 * @param length Number of bytes to read
+	 * @returns Exactly `length` bytes, or fewer if the stream has ended. Empty array means there is nothing left to read.
+	 */
+	async read(length: number): Promise<Uint8Array>{
+		while(this.bufferedLength < length && !this.ended){
+			const {done, value} = await this.iterator.next();
+			if(done) this.ended = true;
+			else if(value.byteLength){
+				this.buffered.push(value);
+				this.bufferedLength += value.byteLength;
+			}
+		}
+		const size = Math.min(length, this.bufferedLength);
+		const ret = new Uint8Array(size);
+		let written = 0;
+		while(written < size){
+			const first = this.buffered[0];
+			const needed = size - written;
+			if(first.byteLength <= needed){
+				ret.set(first, written);
+				written += first.byteLength;
+				this.buffered.shift();
+			} else {
+				ret.set(first.subarray(0, needed), written);
+				written += needed;
+				this.buffered[0] = first.subarray(needed);
+			}
+		}
+		this.bufferedLength -= size;
+		return ret;
+	}
+
+	/**
+	 * Stop reading the source. Anything not read yet will be discarded.
+	 */
+	async close(){
+		this.buffered = [];
+		this.bufferedLength = 0;
+		this.ended = true;
+		if(this.iterator.return) await this.iterator.return();
+	}
+}
+
+/**
+ * Collect every chunk of a stream into a single buffer
+ * @param source Stream to read
+ * @returns Content of the whole stream
+ */
+export async function collect(source: StreamSource): Promise<Uint8Array>{
+	const chunks: Uint8Array[] = [];
+	let length = 0;
+	for await (const chunk of toAsyncIterable(source)){
+		chunks.push(chunk);
+		length += chunk.byteLength;
+	}
+	const ret = new Uint8Array(length);
+	let offset = 0;
+	for(const c of chunks){
+		ret.set(c, offset);
+		offset += c.byteLength;
+	}
+	return ret;
+}
@@ -0,0 +1,60 @@
+import { addSuffix } from "./Conflicts";
+import type { EncryptedItem } from "./encrypted/EncryptedItemBase";
+
+/**
+ * What to do with encrypted items that a sync client has renamed because of a conflict, such as "XXXX (Conflicted copy).c9r" or "XXXX (1).c9r".
+ * Their names are decrypted without the suffix, and a suffix such as "(Conflict 1)" is added to the decrypted name instead.
+ * Show: List them with the suffixed name, without changing anything. They cannot be found with lookup, until they are renamed.
+ * Rename: Rename them to the suffixed name in the storage, the same way the official app does, so that they become ordinary items.
+ *
+ * In both cases, a directory that points to the same directory ID as the original is a duplicate, and is left out.
+ * It is also deleted with Rename, without touching the contents of the directory.
+ */
+export enum SyncConflictMode{
+	Show,
+	Rename
+}
+
+// Characters of base64url, which encrypted names and hashes of shortened names consist of
+const SYNC_CONFLICT_PATTERN = /^([A-Za-z0-9_=-]+)[^A-Za-z0-9_=-].*(\.c9[rs])$/;
+
+/**
+ * Get the name an encrypted item had before a sync client added a suffix to it
+ * @param name Name of the encrypted item, such as "XXXX (1).c9r"
+ * @returns Original name such as "XXXX.c9r", or null if the name has no suffix
+ */
+export function getSyncConflictOrigin(name: string){
+	const match = SYNC_CONFLICT_PATTERN.exec(name);
+	if(!match) return null;
+	return match[1] + match[2];
+}
+
+/**
+ * Give items that are in conflict a name that is not taken in the directory.
+ * If the original no longer exists, the item gets the name of the original.
+ * @param items Everything listed in the directory, including the items in conflict
+ * @param conflicts Items whose encrypted names have a suffix. Their decrypted names are those of the originals.
+ * @param mode What to do with them
+ * @returns Items in the directory, without duplicates of directories
+ */
+export async function resolveSyncConflicts(items: EncryptedItem[], conflicts: EncryptedItem[], mode: SyncConflictMode){
+	const originals = items.filter(i => !conflicts.includes(i));
+	const taken = new Set(originals.map(i => i.decryptedName));
+	const duplicates = new Set<EncryptedItem>();
+	// One at a time, so that each of them gets a different name
+	for(const item of conflicts){
+		const original = originals.find(i => i.decryptedName === item.decryptedName);
+		if(item.type === 'd' && original?.type === 'd' && await item.getDirId() === await original.getDirId()){
+			duplicates.add(item);
+			// Only the link is removed, as the directory it points to is the same as the original
+			if(mode === SyncConflictMode.Rename) await item.vault.provider.removeDir(item.fullName);
+			continue;
+		}
+		let name = item.decryptedName;
+		for(let i = 1; taken.has(name); i++) name = addSuffix(item.decryptedName, `(Conflict ${i})`, item.type === 'f');
+		taken.add(name);
+		if(mode === SyncConflictMode.Rename) await item.rename(name);
+		else item.decryptedName = name;
+	}
+	return items.filter(i => !duplicates.has(i));
+}
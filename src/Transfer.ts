@@ -0,0 +1,328 @@
+import { v4 } from "uuid";
+import { addSuffix, ConflictPolicy } from "./Conflicts";
+import type { DataProvider } from "./DataProvider";
+import type { EncryptedDir } from "./encrypted/EncryptedDir";
+import { EncryptedFile } from "./encrypted/EncryptedFile";
+import type { EncryptedItem } from "./encrypted/EncryptedItemBase";
+import { ExistsError } from "./Errors";
+import { TaskScheduler } from "./Scheduler";
+import { collect } from "./Stream";
+import type { DirID, Item } from "./types";
+import type { Vault } from "./Vault";
+
+/**
+ * Progress of an import or an export, reported whenever a file is done or a chunk of it has been transferred
+ */
+export type TransferProgress = {
+	/**
+	 * Number of files that are done, whether they have been transferred, skipped or failed
+	 */
+	files: number;
+	totalFiles: number;
+	/**
+	 * Number of bytes of file content read so far. Bytes of files that fail partway are counted as well, so it can end up above summary.bytes.
+	 */
+	bytes: number;
+	/**
+	 * Sum of the sizes of all files. Files whose size is not known in advance are not counted.
+	 */
+	totalBytes: number;
+}
+
+/**
+ * A file or directory that could not be transferred
+ */
+export type TransferFailure = {
+	/**
+	 * Path in the source. For exports, this is the decrypted path relative to the exported directory, such as /2024/a.jpg.
+	 * For directories, nothing in them has been transferred.
+	 */
+	path: string;
+	error: unknown;
+}
+
+export type TransferSummary = {
+	/**
+	 * Number of files transferred
+	 */
+	files: number;
+	/**
+	 * Number of files skipped, as they already existed. Symbolic links are skipped by exports, as data providers cannot create them.
+	 */
+	skipped: number;
+	/**
+	 * Number of directories created
+	 */
+	dirs: number;
+	/**
+	 * Number of bytes of file content transferred
+	 */
+	bytes: number;
+	failures: TransferFailure[];
+}
+
+export type ImportOpts = {
+	/**
+	 * What to do with files that already exist in the vault. Defaults to fail, which reports them as failures.
+	 * Skip can be used to continue an import that has been interrupted.
+	 * Existing directories are always merged into, unless something else of the same name is in the way.
+	 */
+	conflict?: ConflictPolicy;
+	/**
+	 * Max number of files that are imported at once. Defaults to 4.
+	 */
+	concurrency?: number;
+	onProgress?: (progress: TransferProgress) => void;
+}
+
+export type ExportOpts = {
+	/**
+	 * What to do with files that already exist in the target. Defaults to fail, which reports them as failures.
+	 * Existing directories are always merged into.
+	 */
+	conflict?: ConflictPolicy;
+	/**
+	 * Max number of files that are exported at once. Defaults to 4.
+	 */
+	concurrency?: number;
+	onProgress?: (progress: TransferProgress) => void;
+}
+
+type SourceNode = {
+	item: Item;
+	children: SourceNode[];
+}
+
+type VaultNode = {
+	item: EncryptedItem;
+	path: string;
+	children: VaultNode[];
+}
+
+function countFiles(node: SourceNode | VaultNode): number{
+	if(node.item.type === 'f') return 1;
+	let count = 0;
+	for(const child of node.children) count += countFiles(child);
+	return count;
+}
+
+/**
+ * Encrypt everything in a directory of a data provider into a directory of a vault, keeping the hierarchy.
+ * Errors are collected in the summary instead of stopping the import.
+ * @param vault Vault to import into
+ * @param source Data provider to read from
+ * @param sourcePath Directory whose contents are imported
+ * @param to ID of the directory the contents go into
+ * @param options Import options
+ * @returns What has been imported, and what has failed
+ * @throws Whatever the source throws if sourcePath cannot be listed
+ */
+export async function importTree(vault: Vault, source: DataProvider, sourcePath: string, to: DirID, options?: ImportOpts): Promise<TransferSummary>{
+	const conflict = options?.conflict ?? 'fail';
+	const summary: TransferSummary = {files: 0, skipped: 0, dirs: 0, bytes: 0, failures: []};
+	const progress: TransferProgress = {files: 0, totalFiles: 0, bytes: 0, totalBytes: 0};
+	const report = () => {
+		if(options?.onProgress) options.onProgress({...progress});
+	};
+
+	// The source is listed first, so that the totals are known
+	const discover = async (item: Item): Promise<SourceNode> => {
+		if(item.type === 'f'){
+			progress.totalFiles++;
+			progress.totalBytes += item.size ?? 0;
+			return {item, children: []};
+		}
+		try{
+			return {item, children: await Promise.all((await source.listItems(item.fullName)).map(discover))};
+		} catch(e) {
+			summary.failures.push({path: item.fullName, error: e});
+			return {item, children: []};
+		}
+	};
+	const top = await Promise.all((await source.listItems(sourcePath)).map(discover));
+	report();
+
+	const limit = new TaskScheduler(options?.concurrency ?? 4);
+	const importFile = async (item: Item, dirId: DirID) => {
+		let transferred = 0;
+		try{
+			const existing = conflict === 'skip' ? await vault.lookup(item.name, dirId) : null;
+			if(existing?.type === 'f'){
+				summary.skipped++;
+				return;
+			}
+			const counted = async function*(){
+				const content = source.readFileStream ? source.readFileStream(item.fullName) : [await source.readFile(item.fullName)];
+				for await (const chunk of content){
+					transferred += chunk.byteLength;
+					progress.bytes += chunk.byteLength;
+					report();
+					yield chunk;
+				}
+			};
+			await EncryptedFile.encryptStream(vault, item.name, dirId, counted(), undefined, conflict);
+			summary.files++;
+			summary.bytes += transferred;
+		} catch(e) {
+			summary.failures.push({path: item.fullName, error: e});
+		} finally {
+			progress.files++;
+			report();
+		}
+	};
+	const importNode = async (node: SourceNode, dirId: DirID): Promise<void> => {
+		const item = node.item;
+		if(item.type === 'f') return await limit.run(() => importFile(item, dirId));
+		let created: DirID;
+		try{
+			const existing = await vault.lookup(item.name, dirId);
+			if(existing?.type === 'd') created = await existing.getDirId();
+			else {
+				const dir = await vault.createDirectory(item.name, dirId, undefined, conflict === 'rename-with-suffix' ? conflict : 'fail');
+				summary.dirs++;
+				created = await dir.getDirId();
+			}
+		} catch(e) {
+			summary.failures.push({path: item.fullName, error: e});
+			// Files in it will never be imported, but they are done
+			progress.files += countFiles(node);
+			report();
+			return;
+		}
+		await Promise.all(node.children.map(c => importNode(c, created)));
+	};
+	await Promise.all(top.map(n => importNode(n, to)));
+	return summary;
+}
+
+/**
+ * Decrypt everything in a directory of a vault into a directory of a data provider, keeping the hierarchy and modification times.
+ * Every chunk of a file is verified before it takes its name in the target, and errors are collected in the summary instead of stopping the export.
+ * Files are streamed through a temporary name if the target supports writeFileStream, so that they never have to be in memory as a whole.
+ * @param vault Vault to export from
+ * @param dir Directory whose contents are exported
+ * @param target Data provider to write to
+ * @param targetPath Directory the contents go into. It is created if it does not exist.
+ * @param options Export options
+ * @returns What has been exported, and what has failed
+ * @throws Whatever the vault throws if dir cannot be listed
+ * @throws Whatever the target throws if targetPath cannot be created
+ */
+export async function exportTree(vault: Vault, dir: EncryptedDir, target: DataProvider, targetPath: string, options?: ExportOpts): Promise<TransferSummary>{
+	const conflict = options?.conflict ?? 'fail';
+	const summary: TransferSummary = {files: 0, skipped: 0, dirs: 0, bytes: 0, failures: []};
+	const progress: TransferProgress = {files: 0, totalFiles: 0, bytes: 0, totalBytes: 0};
+	const report = () => {
+		if(options?.onProgress) options.onProgress({...progress});
+	};
+
+	// The vault is listed first, so that the totals are known
+	const discover = async (item: EncryptedItem, parent: string): Promise<VaultNode> => {
+		const path = `${parent}/${item.decryptedName}`;
+		if(item.type === 'f'){
+			progress.totalFiles++;
+			const size = await item.getSize();
+			progress.totalBytes += size ?? 0;
+			return {item, path, children: []};
+		}
+		if(item.type === 's') return {item, path, children: []};
+		try{
+			return {item, path, children: await Promise.all((await vault.listItems(await item.getDirId())).map(c => discover(c, path)))};
+		} catch(e) {
+			summary.failures.push({path, error: e});
+			return {item, path, children: []};
+		}
+	};
+	const top = await Promise.all((await vault.listItems(await dir.getDirId())).map(c => discover(c, '')));
+	report();
+
+	const base = targetPath.replace(/\/+$/, '');
+	await target.createDir(base || '/', true);
+	const setLastMod = async (path: string, lastMod: Date) => {
+		if(target.setLastMod) await target.setLastMod(path, lastMod);
+	};
+	const limit = new TaskScheduler(options?.concurrency ?? 4);
+	// Paths that files of this export are written to. Files are exported in parallel, so a path that does not exist yet may already be taken.
+	// Each one is checked right after the target has been asked, so that no other file can take it in between.
+	const reserved = new Set<string>();
+	const exportFile = async (node: VaultNode, file: EncryptedFile, parent: string) => {
+		try{
+			let path = `${parent}/${file.decryptedName}`;
+			if(await target.exists(path) || reserved.has(path)){
+				if(conflict === 'skip'){
+					summary.skipped++;
+					return;
+				}
+				if(conflict === 'fail') throw new ExistsError(path);
+				if(conflict === 'rename-with-suffix'){
+					for(let i = 1; await target.exists(path) || reserved.has(path); i++) path = `${parent}/${addSuffix(file.decryptedName, `(${i})`, true)}`;
+				}
+			}
+			reserved.add(path);
+			let size = 0;
+			const counted = async function*(){
+				for await (const chunk of file.decryptContentStream()){
+					size += chunk.byteLength;
+					progress.bytes += chunk.byteLength;
+					report();
+					yield chunk;
+				}
+			};
+			// Nothing is written under the name of a file that has been tampered with, as every chunk is verified before it is in place
+			if(target.writeFileStream){
+				// Written under a random name first, and only renamed once the last chunk has been verified
+				const tempPath = `${path}.${v4()}.tmp`;
+				try{
+					await target.writeFileStream(tempPath, counted());
+					await target.rename(tempPath, path);
+				} catch(e) {
+					await Promise.allSettled([target.removeFile(tempPath)]);
+					throw e;
+				}
+			} else {
+				await target.writeFile(path, await collect(counted()));
+			}
+			await setLastMod(path, file.lastMod);
+			summary.files++;
+			summary.bytes += size;
+		} catch(e) {
+			summary.failures.push({path: node.path, error: e});
+		} finally {
+			progress.files++;
+			report();
+		}
+	};
+	const exportNode = async (node: VaultNode, parent: string): Promise<void> => {
+		const item = node.item;
+		if(item.type === 'f') return await limit.run(() => exportFile(node, item, parent));
+		if(item.type === 's'){
+			summary.skipped++;
+			return;
+		}
+		const path = `${parent}/${item.decryptedName}`;
+		try{
+			if(await target.exists(path)){
+				// Only directories can be merged into
+				if(target.stat && (await target.stat(path))?.type === 'f') throw new ExistsError(path);
+			} else {
+				await target.createDir(path);
+				summary.dirs++;
+			}
+		} catch(e) {
+			summary.failures.push({path: node.path, error: e});
+			// Files in it will never be exported, but they are done
+			progress.files += countFiles(node);
+			report();
+			return;
+		}
+		await Promise.all(node.children.map(c => exportNode(c, path)));
+		// Writing the contents changes the modification time, so it is set afterwards
+		try{
+			await setLastMod(path, item.lastMod);
+		} catch(e) {
+			summary.failures.push({path: node.path, error: e});
+		}
+	};
+	await Promise.all(top.map(n => exportNode(n, base)));
+	return summary;
+}
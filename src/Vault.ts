@@ -1,16 +1,27 @@
 import { AES } from "@stablelib/aes";
 import { SIV } from "@stablelib/siv";
-import { scrypt } from "scrypt-js";
 import type { DataProvider, ProgressCallback } from "./DataProvider";
 import type { DirID, EncryptionKey, Item, ItemPath, MACKey } from "./types";
-import { base64url, jwtVerify, SignJWT } from "jose";
-import { DecryptionError, DecryptionTarget, ExistsError, InvalidSignatureError } from "./Errors";
+import { base64url, decodeProtectedHeader, jwtVerify, SignJWT } from "jose";
+import { DecryptionError, DecryptionTarget, ExistsError, InvalidSignatureError, UnsupportedFormatError, UnsupportedKeyError } from "./Errors";
 import { EncryptedDir } from "./encrypted/EncryptedDir";
 import { EncryptedFile } from "./encrypted/EncryptedFile";
+import { EncryptedSymlink } from "./encrypted/EncryptedSymlink";
 import { Base64 } from "js-base64";
 import b32 from 'base32-encode'
 import { v4 } from "uuid";
 import type { EncryptedItem } from "./encrypted/EncryptedItemBase";
+import { checkVault, HealthCheckOpts } from "./HealthCheck";
+import { CacheKind, CacheOpts, VaultCache } from "./Cache";
+import { mkdirAt, readFileAt, removeAt, resolvePath, statAt, writeFileAt } from "./Paths";
+import { backupMasterkey, exportRawKeys, importRawKeys, Masterkey, replaceMasterkey, signMasterkeyVersion, unwrapKeys, wrapKeys } from "./Masterkey";
+import { decodeRecoveryKey, encodeRecoveryKey } from "./RecoveryKey";
+import { CipherCombo, createCipher, FileCipher, SUPPORTED_CIPHER_COMBOS } from "./Cipher";
+import { TaskPriority, TaskScheduler } from "./Scheduler";
+import { copyItem, CopyProgress } from "./Copy";
+import { checkConflict, ConflictPolicy, setAside } from "./Conflicts";
+import { getSyncConflictOrigin, resolveSyncConflicts, SyncConflictMode } from "./SyncConflicts";
+import { ExportOpts, exportTree, ImportOpts, importTree } from "./Transfer";
 
 type VaultConfigHeader = {
 	kid: string;
@@ -22,22 +33,12 @@ type VaultConfig = {
 	format: number;
 	shorteningThreshold: number;
 	jti: string;
-	cipherCombo: 'SIV_CTRMAC';
-}
-
-type Masterkey = {
-	primaryMasterKey: string;
-	hmacMasterKey: string;
-	scryptBlockSize: number;
-	scryptCostParam: number;
-	scryptSalt: string;
-	versionMac: string;
-	version: 999;
+	cipherCombo: CipherCombo;
 }
 
 type VaultSettings = {
 	/**
-	 * Currently, only version 8 is supported.
+	 * Vaults are created in format 8. Vaults of format 7 can be opened, and upgraded with migrate.
 	 */
 	format: number;
 	/**
@@ -52,6 +53,44 @@ type VaultSettings = {
 	 * Defaults to 8.
 	 */
 	scryptBlockSize: number;
+	/**
+	 * Algorithm used to sign vault.cryptomator. Defaults to HS256.
+	 */
+	algorithm: VaultConfigHeader['alg'];
+	/**
+	 * Cipher combo used to encrypt file contents. Defaults to SIV_CTRMAC.
+	 */
+	cipherCombo: CipherCombo;
+}
+
+const SUPPORTED_ALGORITHMS: VaultConfigHeader['alg'][] = ['HS256', 'HS384', 'HS512'];
+
+/**
+ * Function that supplies raw keys of a vault, for key schemes other than masterkey files.
+ * @param keyId Key ID (kid) in the header of vault.cryptomator, such as "hub+https://..."
+ * @param vault Provider and directory of the vault being opened
+ * @returns Encryption key followed by MAC key (64 bytes in total), or null if this key ID should be handled as a masterkey file
+ */
+export type KeyLoader = (keyId: string, vault: {provider: DataProvider, dir: string}) => Promise<Uint8Array | null>;
+
+/**
+ * Work out the location of the masterkey file from a key ID
+ * @param dir Directory of the vault
+ * @param keyId Key ID in the form of "masterkeyfile:<path>". Relative paths are resolved against the vault directory.
+ * @returns Absolute path of the masterkey file
+ * @throws UnsupportedKeyError if the key ID does not refer to a masterkey file
+ */
+function resolveMasterkeyFile(dir: string, keyId: string){
+	const scheme = 'masterkeyfile:';
+	if(!keyId || !keyId.startsWith(scheme)) throw new UnsupportedKeyError(keyId);
+	const location = decodeURIComponent(keyId.slice(scheme.length));
+	const resolved = location.startsWith('/') ? [] : dir.split('/');
+	for(const part of location.split('/')){
+		if(part === '.' || part === '') continue;
+		if(part === '..') resolved.pop();
+		else resolved.push(part);
+	}
+	return (location.startsWith('/') ? '/' : '') + resolved.join('/');
 }
 
 type CreateVaultOpts = {
@@ -71,7 +110,7 @@ type CreateVaultOpts = {
 
 type QueryOpts = {
 	/**
-	 * Max number of queries that should be done in batch.
+	 * Max number of calls to the data provider that can be in progress at once, shared by every operation of the vault.
 	 * Defaults to -1, which represents infinite
 	 * It is recommended that you set this to certain value so that you don't end up mass querying the server.
 	 */
@@ -92,20 +131,103 @@ export enum CreationStep{
 	CreatingRoot
 }
 
+/**
+ * Vault migrate function will call the callback function with these values to indicate which step it is currently in.
+ * BackupMasterkey: Copying masterkey.cryptomator to masterkey.cryptomator.XXXXXXXX.bkup
+ * WriteVaultConfig: Writing vault.cryptomator
+ * UpdateMasterkey: Replacing masterkey.cryptomator with the one of format 8
+ */
+export enum MigrationStep{
+	BackupMasterkey,
+	WriteVaultConfig,
+	UpdateMasterkey
+}
+
+/**
+ * Create the AES-SIV instance that encrypts names
+ * @param rawKey Encryption key followed by MAC key, 64 bytes in total
+ */
+function createSiv(rawKey: Uint8Array){
+	const sivKey = new Uint8Array(64);
+	sivKey.set(rawKey.subarray(32, 64), 0);
+	sivKey.set(rawKey.subarray(0, 32), 32);
+	const siv = new SIV(AES, sivKey);
+	sivKey.fill(0);
+	return siv;
+}
+
 /**
  * Cryptomator vault object
  */
 export class Vault {
 	private constructor(
-		public provider: DataProvider,
+		provider: DataProvider,
 		public dir: string,
 		public name: string,
 		public encKey: EncryptionKey,
 		public macKey: MACKey,
 		private siv: SIV,
 		public vaultSettings: VaultSettings,
-		public queryOpts: QueryOpts
-	){}
+		public queryOpts: QueryOpts,
+		/**
+		 * Absolute path of masterkey.cryptomator, null if the keys have been supplied by a key loader
+		 */
+		public masterkeyFile: string | null,
+		cacheOpts?: CacheOpts,
+		/**
+		 * What to do with items that a sync client has renamed because of a conflict
+		 */
+		public syncConflicts = SyncConflictMode.Show
+	){
+		this.cipher = createCipher(vaultSettings.cipherCombo, encKey, macKey);
+		this.cache = new VaultCache(cacheOpts);
+		this.scheduler = new TaskScheduler(queryOpts.concurrency);
+		this.baseProvider = provider;
+		this.provider = this.scheduled(TaskPriority.Normal);
+	}
+
+	/**
+	 * Data provider of the vault. Every call to it goes through the scheduler of the vault.
+	 */
+	provider: DataProvider;
+
+	/**
+	 * Scheduler that limits how many calls to the data provider are in progress at once, as set by queryOpts.concurrency
+	 */
+	scheduler: TaskScheduler;
+
+	private baseProvider: DataProvider;
+	private scheduledProviders = new Map<TaskPriority, DataProvider>();
+
+	/**
+	 * Parent and dir.c9r link of every directory whose ID has been read through this object, so that ancestors can be found without listing anything.
+	 * Entries are only hints, as the vault may have been changed elsewhere. Check that the link still points to the directory before using one.
+	 */
+	dirLinks = new Map<DirID, {parentId: DirID, link: ItemPath}>();
+
+	/**
+	 * Get the data provider of the vault with calls run at a priority
+	 * @param priority Priority of the calls
+	 * @returns Data provider whose calls go through the scheduler of the vault
+	 */
+	scheduled(priority: TaskPriority){
+		let provider = this.scheduledProviders.get(priority);
+		if(!provider){
+			provider = this.scheduler.wrap(this.baseProvider, priority);
+			this.scheduledProviders.set(priority, provider);
+		}
+		return provider;
+	}
+
+	/**
+	 * Cipher that encrypts and decrypts file contents, selected by the cipher combo of the vault
+	 */
+	cipher: FileCipher;
+
+	/**
+	 * Cache of directory IDs, names and listings. Disabled unless cache options are given when the vault is created or opened.
+	 */
+	cache: VaultCache;
 
 	/**
 	 * Create a vault.
@@ -117,10 +239,10 @@ export class Vault {
 	 * @param options.vault Option that determines vault configuration
 	 * @param options.queryOpts Option that controls how often the data provider should be queried
 	 * @param options.callback Function to call once a time consuming operation is completed
+	 * @param options.masterkeyFile Path of the masterkey file relative to the vault directory, defaults to masterkey.cryptomator
+	 * @param options.cache Options of the cache of directory IDs, names and listings. Nothing is cached if not set.
+	 * @param options.syncConflicts What to do with items that a sync client has renamed because of a conflict. Defaults to SyncConflictMode.Show.
 	 * @returns The vault object for the newly created vault
-	 *
-	 * Currently, custom masterkey.cryptomator location and algorithm other than HS256 is not supported.
-	 * As a result, vault.cryptomator's decoded header will always be the same.
 	 */
 	static async create(
 		provider: DataProvider,
@@ -130,10 +252,14 @@ export class Vault {
 			create: CreateVaultOpts,
 			vault?: Partial<VaultSettings>
 			queryOpts?: QueryOpts,
-			callback?: (step: CreationStep) => void
+			callback?: (step: CreationStep) => void,
+			masterkeyFile?: string,
+			cache?: CacheOpts,
+			syncConflicts?: SyncConflictMode
 		}
 	) {
 		let name: string;
+		const masterkeyFileName = options.masterkeyFile ?? 'masterkey.cryptomator';
 		if(options.callback) options.callback(CreationStep.DupeCheck);
 		if (dir.endsWith('/')) dir = dir.slice(0, -1);
 		if (options.create.name) {
@@ -146,7 +272,7 @@ export class Vault {
 				if(await provider.exists(dir)) throw new ExistsError(dir);
 			}
 			await Promise.all([
-				checkExists(`${dir}/masterkey.cryptomator`),
+				checkExists(resolveMasterkeyFile(dir, `masterkeyfile:${masterkeyFileName}`)),
 				checkExists(`${dir}/vault.cryptomator`),
 				checkExists(`${dir}/d`)
 			]);
@@ -157,9 +283,12 @@ export class Vault {
 		const sBlockSize = options.vault?.scryptBlockSize ?? 8;
 		const sCostParam = options.vault?.scryptCostParam ?? 32768;
 		const format = options.vault?.format ?? 8;
-		const salt = crypto.getRandomValues(new Uint8Array(32));
-		const kekBuffer = await scrypt(new TextEncoder().encode(password), salt, sCostParam, sBlockSize, 1, 32);
-		if(options.callback) options.callback(CreationStep.CreatingFiles);
+		if(format !== 8) throw new UnsupportedFormatError(format);
+		const algorithm = options.vault?.algorithm ?? 'HS256';
+		if(!SUPPORTED_ALGORITHMS.includes(algorithm)) throw new RangeError(`Unsupported algorithm: ${algorithm}`);
+		const cipherCombo = options.vault?.cipherCombo ?? 'SIV_CTRMAC';
+		if(!SUPPORTED_CIPHER_COMBOS.includes(cipherCombo)) throw new RangeError(`Unsupported cipher combo: ${cipherCombo}`);
+		const masterkeyFile = resolveMasterkeyFile(dir, `masterkeyfile:${masterkeyFileName}`);
 		const encKeyBuffer = crypto.getRandomValues(new Uint8Array(32));
 		const macKeyBuffer = crypto.getRandomValues(new Uint8Array(32));
 		const buffer = new Uint8Array(64);
@@ -169,8 +298,6 @@ export class Vault {
 		buffer.set(encKeyBuffer, 0);
 		buffer.set(macKeyBuffer, 32);
 
-		const kek = await crypto.subtle.importKey('raw', kekBuffer, 'AES-KW', false, ['wrapKey']);
-		kekBuffer.fill(0);
 		const encKey = await crypto.subtle.importKey('raw', encKeyBuffer, 'AES-CTR', true, ['encrypt', 'decrypt']) as EncryptionKey;
 		const macKey = await crypto.subtle.importKey('raw', macKeyBuffer, {
 			name: 'HMAC',
@@ -180,28 +307,12 @@ export class Vault {
 		encKeyBuffer.fill(0);
 		macKeyBuffer.fill(0);
 
-		const wrappedEncKey = new Uint8Array(await crypto.subtle.wrapKey(
-			'raw',
-			encKey,
-			kek,
-			'AES-KW'
-		));
-
-		const wrappedMacKey = new Uint8Array(await crypto.subtle.wrapKey(
-			'raw',
-			macKey,
-			kek,
-			'AES-KW'
-		));
-
-		const versionMac = new Uint8Array(await crypto.subtle.sign('HMAC', macKey, new TextEncoder().encode(`${format}`)));
+		const wrapped = await wrapKeys(encKey, macKey, password, sCostParam, sBlockSize);
+		if(options.callback) options.callback(CreationStep.CreatingFiles);
+
 		const mk: Masterkey = {
-			primaryMasterKey: Base64.fromUint8Array(wrappedEncKey),
-			hmacMasterKey: Base64.fromUint8Array(wrappedMacKey),
-			scryptBlockSize: sBlockSize,
-			scryptCostParam: sCostParam,
-			scryptSalt: Base64.fromUint8Array(salt),
-			versionMac: Base64.fromUint8Array(versionMac),
+			...wrapped,
+			versionMac: await signMasterkeyVersion(macKey, 999),
 			version: 999
 		}
 
@@ -209,18 +320,22 @@ export class Vault {
 			format: format,
 			shorteningThreshold: options.vault?.shorteningThreshold ?? 220,
 			jti: v4(),
-			cipherCombo: 'SIV_CTRMAC'
+			cipherCombo: cipherCombo
 		}).setProtectedHeader({
-			alg: 'HS256',
-			kid: 'masterkeyfile:masterkey.cryptomator',
+			alg: algorithm,
+			kid: `masterkeyfile:${masterkeyFileName}`,
 			typ: 'JWT'
 		}).sign(buffer);
 		buffer.fill(0);
+		// The vault does not exist yet to schedule these, so they are limited on their own
+		const limited = new TaskScheduler(options.queryOpts?.concurrency ?? -1).wrap(provider);
 		try {
+			const masterkeyDir = masterkeyFile.slice(0, masterkeyFile.lastIndexOf('/'));
+			if(masterkeyDir !== dir) await provider.createDir(masterkeyDir, true);
 			await Promise.all([
-				provider.writeFile(`${dir}/masterkey.cryptomator`, JSON.stringify(mk)),
-				provider.writeFile(`${dir}/vault.cryptomator`, vaultFile),
-				provider.createDir(`${dir}/d`)
+				limited.writeFile(masterkeyFile, JSON.stringify(mk)),
+				limited.writeFile(`${dir}/vault.cryptomator`, vaultFile),
+				limited.createDir(`${dir}/d`)
 			]);
 			if(options.callback) options.callback(CreationStep.CreatingRoot);
 
@@ -228,16 +343,19 @@ export class Vault {
 				format: options.vault?.format ?? 8,
 				shorteningThreshold: options.vault?.shorteningThreshold ?? 220,
 				scryptCostParam: sCostParam,
-				scryptBlockSize: sBlockSize
-			}, options.queryOpts ?? {concurrency: -1});
+				scryptBlockSize: sBlockSize,
+				algorithm: algorithm,
+				cipherCombo: cipherCombo
+			}, options.queryOpts ?? {concurrency: -1}, masterkeyFile, options.cache, options.syncConflicts);
 			const rootDir = await vault.getRootDirPath();
 			await provider.createDir(rootDir, true);
+			await vault.writeDirIdBackup('' as DirID);
 
 			return vault;
 		} catch (e) {
-			if(name) await provider.removeDir(dir);
+			if(options.create.name) await provider.removeDir(dir);
 			else await Promise.allSettled([
-				provider.removeFile(`${dir}/masterkey.cryptomator`),
+				provider.removeFile(masterkeyFile),
 				provider.removeFile(`${dir}/vault.cryptomator`),
 				provider.removeDir(`${dir}/d`)
 			]);
@@ -254,11 +372,19 @@ export class Vault {
 	 * @param name Name of the vault, may be null
 	 * @param options Various options to pass to decrypting vault
 	 * @param options.vaultFile: Absolute directory of the vault.cryptomator file
-	 * @param options.masterkeyFile: Absolute directory of the masterkey.cryptomator file
+	 * @param options.masterkeyFile: Absolute directory of the masterkey.cryptomator file. If not set, it is resolved from the key ID in vault.cryptomator.
+	 * @param options.keyLoader: Function that supplies raw keys for key IDs other than masterkey files. If it returns null, the masterkey file is used.
 	 * @param options.onKeyLoad: Callback that is called when the vault.cryptomator and masterkey.cryptomator is loaded
 	 * @param options.queryOpts: Parameter that limits the query sent to the remote storage
+	 * @param options.cache: Options of the cache of directory IDs, names and listings. Nothing is cached if not set.
+	 * @param options.syncConflicts: What to do with items that a sync client has renamed because of a conflict. Defaults to SyncConflictMode.Show.
 	 * @throws DecryptionError if the given password is wrong
 	 * @throws InvalidSignatureError if the integrity of vault.cryptomator file cannot be verified
+	 * @throws UnsupportedKeyError if the key ID is not a masterkey file, and the key loader did not supply a key
+	 * @throws RangeError if the cipher combo of the vault is not supported
+	 * @throws UnsupportedFormatError if the vault is neither format 7 nor 8
+	 *
+	 * If vault.cryptomator does not exist, the vault is opened as format 7, where the configuration lives in masterkey.cryptomator.
 	 */
 	static async open(
 			provider: DataProvider,
@@ -268,77 +394,291 @@ export class Vault {
 			options?: {
 				vaultFile?: ItemPath
 				masterkeyFile?: ItemPath
+				keyLoader?: KeyLoader,
 				onKeyLoad?: () => void,
-				queryOpts?: QueryOpts
+				queryOpts?: QueryOpts,
+				cache?: CacheOpts,
+				syncConflicts?: SyncConflictMode
 			}
 		) {
 		if (dir.endsWith('/')) dir = dir.slice(0, -1);
-		const loadTask = [
-			provider.readFileString(options?.vaultFile ? options.vaultFile : dir + '/vault.cryptomator'),
-			provider.readFileString(options?.masterkeyFile ? options.masterkeyFile : dir + '/masterkey.cryptomator')
-		];
-		const [token, rawMk] = await Promise.all(loadTask);
-		const mk = JSON.parse(rawMk) as Masterkey;
-		if(options?.onKeyLoad) options.onKeyLoad();
-		const kekBuffer = await scrypt(new TextEncoder().encode(password), Base64.toUint8Array(mk.scryptSalt), mk.scryptCostParam, mk.scryptBlockSize, 1, 32);
-		const kek = await crypto.subtle.importKey(
-			'raw',
-			kekBuffer,
-			'AES-KW',
-			false,
-			['unwrapKey']
-		);
-		kekBuffer.fill(0);
-		let encKey: EncryptionKey;
-		try{
-			encKey = await crypto.subtle.unwrapKey(
-				'raw',
-				Base64.toUint8Array(mk.primaryMasterKey),
-				kek,
-				'AES-KW',
-				'AES-CTR',
-				true,
-				['encrypt', 'decrypt']
-			) as EncryptionKey;
+		// Vaults of format 7 and earlier do not have vault.cryptomator
+		if(!options?.vaultFile && !await provider.exists(dir + '/vault.cryptomator')) return await Vault.openLegacy(provider, dir, password, name, options);
+		const token = await provider.readFileString(options?.vaultFile ? options.vaultFile : dir + '/vault.cryptomator');
+		let header: VaultConfigHeader;
+		try {
+			header = decodeProtectedHeader(token) as VaultConfigHeader;
 		} catch(e) {
-			throw new DecryptionError(DecryptionTarget.Vault, null);
+			throw new InvalidSignatureError(DecryptionTarget.Vault);
 		}
-		const extractedEnc = new Uint8Array(await crypto.subtle.exportKey('raw', encKey));
-		const macKey = await crypto.subtle.unwrapKey(
-			'raw',
-			Base64.toUint8Array(mk.hmacMasterKey),
-			kek,
-			'AES-KW',
-			{
-				name: 'HMAC',
-				hash: {name: 'SHA-256'}
-			},
-			true,
-			['sign']
-		) as MACKey;
-		const extractedMac = new Uint8Array(await crypto.subtle.exportKey('raw', macKey));
-		const buffer = new Uint8Array(64);
-		buffer.set(extractedMac, 0);
-		buffer.set(extractedEnc, 32);
-		const siv = new SIV(AES, buffer);
-		buffer.set(extractedEnc, 0);
-		buffer.set(extractedMac, 32);
-		extractedMac.fill(0);
-		extractedEnc.fill(0);
+		if(!SUPPORTED_ALGORITHMS.includes(header.alg)) throw new InvalidSignatureError(DecryptionTarget.Vault);
+		let keys: {encKey: EncryptionKey, macKey: MACKey};
+		let masterkeyFile: string | null = null;
+		let mk: Masterkey | null = null;
+		const rawKey = options?.keyLoader ? await options.keyLoader(header.kid, {provider: provider, dir: dir}) : null;
+		if(rawKey){
+			if(options?.onKeyLoad) options.onKeyLoad();
+			keys = await importRawKeys(rawKey);
+			rawKey.fill(0);
+		} else {
+			masterkeyFile = options?.masterkeyFile ? options.masterkeyFile : resolveMasterkeyFile(dir, header.kid);
+			mk = JSON.parse(await provider.readFileString(masterkeyFile)) as Masterkey;
+			if(options?.onKeyLoad) options.onKeyLoad();
+			keys = await unwrapKeys(mk, password);
+		}
+		const {encKey, macKey} = keys;
+		const buffer = await exportRawKeys(encKey, macKey);
+		const siv = createSiv(buffer);
 		let vaultConfig: VaultConfig;
 		try {
-			const res = await jwtVerify(token, buffer);
+			const res = await jwtVerify(token, buffer, {algorithms: [header.alg]});
 			vaultConfig = res.payload as VaultConfig;
 		} catch(e) {
 			throw new InvalidSignatureError(DecryptionTarget.Vault);
+		} finally {
+			buffer.fill(0);
 		}
-		buffer.fill(0);
+		if(vaultConfig.format !== 8) throw new UnsupportedFormatError(vaultConfig.format);
 		return new Vault(provider, dir, name, encKey, macKey, siv, {
 			format: vaultConfig.format,
 			shorteningThreshold: vaultConfig.shorteningThreshold,
+			scryptCostParam: mk ? mk.scryptCostParam : -1,
+			scryptBlockSize: mk ? mk.scryptBlockSize : -1,
+			algorithm: header.alg,
+			cipherCombo: vaultConfig.cipherCombo
+		}, options?.queryOpts ?? {concurrency: -1}, masterkeyFile, options?.cache, options?.syncConflicts);
+	}
+
+	/**
+	 * Open a vault of format 7, whose configuration lives in masterkey.cryptomator
+	 * @throws DecryptionError if the given password is wrong
+	 * @throws InvalidSignatureError if the version in masterkey.cryptomator has been tampered with
+	 * @throws UnsupportedFormatError if the vault is not format 7
+	 */
+	private static async openLegacy(
+		provider: DataProvider,
+		dir: string,
+		password: string,
+		name: string,
+		options?: {
+			masterkeyFile?: ItemPath
+			onKeyLoad?: () => void,
+			queryOpts?: QueryOpts,
+			cache?: CacheOpts,
+			syncConflicts?: SyncConflictMode
+		}
+	){
+		const masterkeyFile = options?.masterkeyFile ? options.masterkeyFile : dir + '/masterkey.cryptomator';
+		const mk = JSON.parse(await provider.readFileString(masterkeyFile)) as Masterkey;
+		if(mk.version !== 7) throw new UnsupportedFormatError(mk.version);
+		if(options?.onKeyLoad) options.onKeyLoad();
+		const {encKey, macKey} = await unwrapKeys(mk, password);
+		if(await signMasterkeyVersion(macKey, mk.version) !== mk.versionMac) throw new InvalidSignatureError(DecryptionTarget.Vault);
+		const rawKey = await exportRawKeys(encKey, macKey);
+		const siv = createSiv(rawKey);
+		rawKey.fill(0);
+		return new Vault(provider, dir, name, encKey, macKey, siv, {
+			format: 7,
+			shorteningThreshold: 220,
 			scryptCostParam: mk.scryptCostParam,
-			scryptBlockSize: mk.scryptBlockSize
-		}, options?.queryOpts ?? {concurrency: -1});
+			scryptBlockSize: mk.scryptBlockSize,
+			algorithm: 'HS256',
+			cipherCombo: 'SIV_CTRMAC'
+		}, options?.queryOpts ?? {concurrency: -1}, masterkeyFile, options?.cache, options?.syncConflicts);
+	}
+
+	/**
+	 * Upgrade this vault from format 7 to format 8 in place, the same way the official app does.
+	 * vault.cryptomator is written, and the version in masterkey.cryptomator is changed to 999. The encrypted files are left as they are, as their layout is identical.
+	 * @param options.dryRun If true, only check that the vault can be migrated, and return the steps that would be taken without changing anything
+	 * @param options.callback Function to call once each step starts
+	 * @returns Steps that have been (or would be) taken, and the absolute path of the backup of masterkey.cryptomator (null in dry run)
+	 * @throws UnsupportedFormatError if the vault is not format 7
+	 * @throws ExistsError if vault.cryptomator already exists
+	 *
+	 * Before anything is changed, masterkey.cryptomator is backed up. If any step fails, the changes made so far are rolled back and the error is rethrown.
+	 */
+	async migrate(options?: {
+		dryRun?: boolean,
+		callback?: (step: MigrationStep) => void
+	}){
+		if(this.vaultSettings.format !== 7) throw new UnsupportedFormatError(this.vaultSettings.format);
+		if(this.masterkeyFile === null) throw new Error('This vault has not been opened with a masterkey file.');
+		const masterkeyFile = this.masterkeyFile;
+		const vaultFile = `${this.dir}/vault.cryptomator`;
+		if(await this.provider.exists(vaultFile)) throw new ExistsError(vaultFile);
+		const original = await this.provider.readFileString(masterkeyFile);
+		const mk = JSON.parse(original) as Masterkey;
+		const steps = [MigrationStep.BackupMasterkey, MigrationStep.WriteVaultConfig, MigrationStep.UpdateMasterkey];
+		if(options?.dryRun) return {steps: steps, backup: null};
+
+		if(options?.callback) options.callback(MigrationStep.BackupMasterkey);
+		const backup = await backupMasterkey(this.provider, masterkeyFile);
+		const kid = masterkeyFile.startsWith(`${this.dir}/`) ? masterkeyFile.slice(this.dir.length + 1) : masterkeyFile;
+		const rawKey = await exportRawKeys(this.encKey, this.macKey);
+		let configWritten = false;
+		try {
+			if(options?.callback) options.callback(MigrationStep.WriteVaultConfig);
+			const token = await new SignJWT({
+				format: 8,
+				shorteningThreshold: this.vaultSettings.shorteningThreshold,
+				jti: v4(),
+				cipherCombo: this.vaultSettings.cipherCombo
+			}).setProtectedHeader({
+				alg: this.vaultSettings.algorithm,
+				kid: `masterkeyfile:${kid}`,
+				typ: 'JWT'
+			}).sign(rawKey);
+			await this.provider.writeFile(vaultFile, token);
+			configWritten = true;
+
+			if(options?.callback) options.callback(MigrationStep.UpdateMasterkey);
+			await replaceMasterkey(this.provider, masterkeyFile, {
+				...mk,
+				version: 999,
+				versionMac: await signMasterkeyVersion(this.macKey, 999)
+			});
+		} catch(e) {
+			if(configWritten){
+				await Promise.allSettled([
+					this.provider.removeFile(vaultFile),
+					this.provider.writeFile(masterkeyFile, original)
+				]);
+			}
+			throw e;
+		} finally {
+			rawKey.fill(0);
+		}
+		this.vaultSettings.format = 8;
+		return {steps: steps, backup: backup};
+	}
+
+	/**
+	 * Change the password of this vault.
+	 * Only masterkey.cryptomator is rewritten, as the keys that encrypt the files do not change.
+	 * @param oldPassword Current password of the vault
+	 * @param newPassword New password of the vault
+	 * @param options.scryptCostParam Scrypt cost parameter to use from now on, keeps the current value if not set
+	 * @param options.scryptBlockSize Scrypt block size to use from now on, keeps the current value if not set
+	 * @returns Absolute path of the backup of the old masterkey.cryptomator
+	 * @throws DecryptionError if the old password is wrong
+	 *
+	 * Before anything is changed, the old masterkey.cryptomator is copied to masterkey.cryptomator.XXXXXXXX.bkup, as the official app does.
+	 */
+	async changePassword(oldPassword: string, newPassword: string, options?: {
+		scryptCostParam?: number,
+		scryptBlockSize?: number
+	}){
+		if(this.masterkeyFile === null) throw new Error('This vault has not been opened with a masterkey file.');
+		const mk = JSON.parse(await this.provider.readFileString(this.masterkeyFile)) as Masterkey;
+		await unwrapKeys(mk, oldPassword);
+		const sCostParam = options?.scryptCostParam ?? mk.scryptCostParam;
+		const sBlockSize = options?.scryptBlockSize ?? mk.scryptBlockSize;
+		const wrapped = await wrapKeys(this.encKey, this.macKey, newPassword, sCostParam, sBlockSize);
+		const backup = await backupMasterkey(this.provider, this.masterkeyFile);
+		await replaceMasterkey(this.provider, this.masterkeyFile, {
+			...mk,
+			...wrapped
+		});
+		this.vaultSettings.scryptCostParam = sCostParam;
+		this.vaultSettings.scryptBlockSize = sBlockSize;
+		return backup;
+	}
+
+	/**
+	 * Export the keys of this vault as a recovery key, which can be used to restore access to the vault if the password is lost.
+	 * Anyone with the recovery key can decrypt the vault, so it should be kept as safe as the password.
+	 * @param wordList List of 4096 words. Pass the word list of the official app to create recovery keys compatible with it.
+	 * @returns 44 words separated by a space
+	 */
+	async createRecoveryKey(wordList: string[]){
+		const rawKey = await exportRawKeys(this.encKey, this.macKey);
+		try{
+			return encodeRecoveryKey(rawKey, wordList);
+		} finally {
+			rawKey.fill(0);
+		}
+	}
+
+	/**
+	 * Rebuild masterkey.cryptomator with a new password, using a recovery key
+	 * @param provider Data provider
+	 * @param dir Directory of the vault that contains 'vault.cryptomator' and 'd' directory
+	 * @param recoveryKey Recovery key created by createRecoveryKey or the official app
+	 * @param newPassword New password of the vault
+	 * @param options.wordList List of 4096 words the recovery key was created with
+	 * @param options.name Name of the vault, defaults to the last part of dir
+	 * @param options.vaultFile Absolute directory of the vault.cryptomator file
+	 * @param options.masterkeyFile Absolute directory of the masterkey.cryptomator file to write. If not set, it is resolved from the key ID in vault.cryptomator.
+	 * @param options.scryptCostParam Scrypt cost parameter for the new password, defaults to 32768
+	 * @param options.scryptBlockSize Scrypt block size for the new password, defaults to 8
+	 * @param options.queryOpts Parameter that limits the query sent to the remote storage
+	 * @returns The vault object, opened with the new password
+	 * @throws InvalidRecoveryKeyError if the recovery key is malformed
+	 * @throws DecryptionError if the recovery key does not belong to this vault
+	 *
+	 * If masterkey.cryptomator exists, it is backed up the same way changePassword does before it is replaced.
+	 */
+	static async restoreFromRecoveryKey(
+		provider: DataProvider,
+		dir: string,
+		recoveryKey: string,
+		newPassword: string,
+		options: {
+			wordList: string[],
+			name?: string,
+			vaultFile?: ItemPath,
+			masterkeyFile?: ItemPath,
+			scryptCostParam?: number,
+			scryptBlockSize?: number,
+			queryOpts?: QueryOpts
+		}
+	){
+		if (dir.endsWith('/')) dir = dir.slice(0, -1);
+		const vaultFile = options.vaultFile ? options.vaultFile : dir + '/vault.cryptomator';
+		const token = await provider.readFileString(vaultFile);
+		let masterkeyFile: string;
+		if(options.masterkeyFile) masterkeyFile = options.masterkeyFile;
+		else {
+			try {
+				masterkeyFile = resolveMasterkeyFile(dir, (decodeProtectedHeader(token) as VaultConfigHeader).kid);
+			} catch(e) {
+				masterkeyFile = dir + '/masterkey.cryptomator';
+			}
+		}
+		const rawKey = decodeRecoveryKey(recoveryKey, options.wordList);
+		const {encKey, macKey} = await importRawKeys(rawKey);
+		let vaultConfig: VaultConfig;
+		try {
+			const res = await jwtVerify(token, rawKey);
+			vaultConfig = res.payload as VaultConfig;
+		} catch(e) {
+			throw new DecryptionError(DecryptionTarget.Vault, null);
+		} finally {
+			rawKey.fill(0);
+		}
+		const wrapped = await wrapKeys(encKey, macKey, newPassword, options.scryptCostParam ?? 32768, options.scryptBlockSize ?? 8);
+		let mk: Masterkey = {
+			...wrapped,
+			versionMac: await signMasterkeyVersion(macKey, 999),
+			version: 999
+		};
+		if(await provider.exists(masterkeyFile)){
+			await backupMasterkey(provider, masterkeyFile);
+			try{
+				// Keep everything else in the old file, such as the version
+				mk = {...JSON.parse(await provider.readFileString(masterkeyFile)) as Masterkey, ...wrapped};
+			} catch(e) {
+				// The old file is unreadable, so a new one is written from scratch
+			}
+		}
+		await replaceMasterkey(provider, masterkeyFile, mk);
+		const splitted = dir.split('/');
+		return await Vault.open(provider, dir, newPassword, options.name ?? splitted[splitted.length - 1], {
+			vaultFile: vaultFile as ItemPath,
+			masterkeyFile: masterkeyFile as ItemPath,
+			queryOpts: options.queryOpts
+		});
 	}
 
 	/**
@@ -360,8 +700,32 @@ export class Vault {
 	 */
 	async listEncrypted(dirId: DirID){
 		const dir = await this.getDir(dirId);
-		const items = await this.provider.listItems(dir);
-		return items.filter(i => (i.name.endsWith('.c9r') || i.name.endsWith('.c9s')) && i.name !== 'dirid.c9r'); // TODO: Add a function that decrypts this
+		const items = await this.scheduled(TaskPriority.High).listItems(dir);
+		return items.filter(i => (i.name.endsWith('.c9r') || i.name.endsWith('.c9s')) && i.name !== 'dirid.c9r'); // dirid.c9r can be read with readDirIdBackup
+	}
+
+	/**
+	 * Write the backup of a directory ID (dirid.c9r) into the encrypted folder of that directory.
+	 * If dir.c9r that points to the directory is ever lost, this file can be used to work out which directory the folder belongs to.
+	 * See https://docs.cryptomator.org/en/latest/security/architecture/#backup-directory-ids
+	 * @param dirId ID of the directory
+	 */
+	async writeDirIdBackup(dirId: DirID){
+		const encrypted = await EncryptedFile.encryptBuffer(this, new TextEncoder().encode(dirId));
+		await this.provider.writeFile(`${await this.getDir(dirId)}/dirid.c9r`, encrypted);
+	}
+
+	/**
+	 * Read the backup of a directory ID (dirid.c9r) from an encrypted folder
+	 * @param dir Absolute path of the encrypted folder, such as one returned by getDir
+	 * @returns ID of the directory the folder belongs to, or null if there is no backup in the folder
+	 * @throws InvalidSignatureError if the backup has been tampered with
+	 */
+	async readDirIdBackup(dir: string): Promise<DirID | null>{
+		const path = `${dir}/dirid.c9r`;
+		if(!await this.provider.exists(path)) return null;
+		const decrypted = await EncryptedFile.decryptBuffer(this, await this.provider.readFile(path));
+		return new TextDecoder().decode(decrypted) as DirID;
 	}
 
 	/**
@@ -381,12 +745,23 @@ export class Vault {
 	 */
 	async decryptFileName(item: Item, parent: DirID): Promise<string>{
 		let name;
-		if(item.name.endsWith('.c9r')) name = item.name.slice(0, -4);
-		else if(item.name.endsWith('.c9s')) name = await this.provider.readFileString(item.fullName + '/name.c9s');
+		// Names that a sync client has added a suffix to are decrypted without it
+		if(item.name.endsWith('.c9r')) name = (getSyncConflictOrigin(item.name) ?? item.name).slice(0, -4);
+		else if(item.name.endsWith('.c9s')){
+			name = this.cache.get<string>(CacheKind.ShortName, parent, item.name);
+			if(name === undefined){
+				name = await this.scheduled(TaskPriority.High).readFileString(item.fullName + '/name.c9s');
+				this.cache.set(CacheKind.ShortName, parent, item.name, name);
+			}
+		}
 		else name = item.name;
+		const cached = this.cache.get<string>(CacheKind.Name, parent, name);
+		if(cached !== undefined) return cached;
 		const decrypted = this.siv.open([new TextEncoder().encode(parent)], base64url.decode(name));
 		if(decrypted === null) throw new DecryptionError(DecryptionTarget.ItemName, item);
-		return new TextDecoder().decode(decrypted);
+		const decoded = new TextDecoder().decode(decrypted);
+		this.cache.set(CacheKind.Name, parent, name, decoded);
+		return decoded;
 	}
 
 	/**
@@ -403,52 +778,138 @@ export class Vault {
 		else return converted;
 	}
 
+	/**
+	 * Work out where an item with a given name is stored
+	 * @param name Original name of the item
+	 * @param parent Directory ID of the parent folder
+	 * @returns Encrypted name, absolute path of the .c9r or .c9s item, and whether the name has been shortened
+	 */
+	async getItemPath(name: string, parent: DirID): Promise<{encName: string, path: ItemPath, shortened: boolean}>{
+		const encDir = await this.getDir(parent);
+		const encName = await this.encryptFileName(name, parent);
+		if(encName.length > this.vaultSettings.shorteningThreshold){
+			const shortened = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(encName));
+			const shortDir = base64url.encode(new Uint8Array(shortened));
+			return {encName: encName, path: `${encDir}/${shortDir}.c9s` as ItemPath, shortened: true};
+		} else return {encName: encName, path: `${encDir}/${encName}.c9r` as ItemPath, shortened: false};
+	}
+
 	/**
 	 * List all files, ready for decrypting contents
 	 * @param dirId ID of the directory
 	 * @param callback.type Optional callback that gets called when the type of file is determined
 	 * @param callback.name Optional callback that gets called upon successful name decryption
+	 * @param callback.invalid Optional callback that gets called for each item whose name cannot be decrypted. Such items are left out, instead of failing the whole listing.
 	 * @returns Encrypted items in that directory
+	 *
+	 * Items that a sync client has renamed because of a conflict are handled as set by syncConflicts.
 	 */
 	async listItems(dirId: DirID, callback?: {
 		type?: ProgressCallback,
-		name?: ProgressCallback
+		name?: ProgressCallback,
+		invalid?: (item: Item, error: DecryptionError<DecryptionTarget.ItemName>) => void
 	}): Promise<EncryptedItem[]>{
-		const enc = await this.listEncrypted(dirId);
-		const pendingNameList: Promise<string>[] = [];
+		const cached = this.cache.get<EncryptedItem[]>(CacheKind.Listing, dirId, '');
+		if(cached){
+			if(callback?.name) callback.name(cached.length, cached.length);
+			if(callback?.type) callback.type(cached.length, cached.length);
+			return [...cached];
+		}
+		const items = await this.listItemsUncached(dirId, callback);
+		this.cache.set(CacheKind.Listing, dirId, '', items);
+		return [...items];
+	}
+
+	/**
+	 * List all files without looking at the cache. See listItems.
+	 */
+	private async listItemsUncached(dirId: DirID, callback?: {
+		type?: ProgressCallback,
+		name?: ProgressCallback,
+		invalid?: (item: Item, error: DecryptionError<DecryptionTarget.ItemName>) => void
+	}): Promise<EncryptedItem[]>{
+		const listed = await this.listEncrypted(dirId);
+		const pendingNameList: Promise<string | null>[] = [];
 		let nameDone = 0;
 		const getFileName = async (item: Item) => {
-			const ret = await this.decryptFileName(item, dirId);
+			let ret: string | null = null;
+			try{
+				ret = await this.decryptFileName(item, dirId);
+			} catch(e) {
+				if(!(e instanceof DecryptionError)) throw e;
+				if(callback?.invalid) callback.invalid(item, e);
+			}
 			nameDone++;
-			if(callback?.name) callback.name(nameDone, enc.length);
+			if(callback?.name) callback.name(nameDone, listed.length);
 			return ret;
 		}
-		for(const item of enc) pendingNameList.push(getFileName(item));
-		const names = await Promise.all(pendingNameList);
+		for(const item of listed) pendingNameList.push(getFileName(item));
+		const decrypted = await Promise.all(pendingNameList);
+		const enc = listed.filter((_, i) => decrypted[i] !== null);
+		const names = decrypted.filter((n): n is string => n !== null);
 		let done = 0;
 		const getItemObj = async (item: Item, name: string) => {
-			let type;
-			let shortened = false;
-			if(item.type === 'd' && item.fullName.endsWith('.c9s')){
-				const contents = await this.provider.listItems(item.fullName);
-				if(contents.find(i => i.name === 'contents.c9r')) type = 'f';
-				else type = 'd';
-				shortened = true;
-			} else type = item.type;
+			const ret = await this.toEncryptedItem(item, name, dirId);
 			done++;
 			if (callback?.type) callback.type(done, names.length);
-			if(type === 'f') return new EncryptedFile(this, item.name, item.fullName, name, dirId, item.lastMod, shortened);
-			else return await EncryptedDir.open(this, item.name, item.fullName, name, dirId, item.lastMod, shortened);
+			return ret;
 		}
-		const tasks = enc.map((item, i) => getItemObj(item, names[i]));
-		if(this.queryOpts.concurrency === -1) return await Promise.all(tasks);
-		else {
-			const chunks = [];
-			let res: EncryptedItem[] = [];
-			while(tasks.length) chunks.push(tasks.splice(0, this.queryOpts.concurrency));
-			for(const c of chunks) res = res.concat(await Promise.all(c));
-			return res;
+		const items = await Promise.all(enc.map((item, i) => getItemObj(item, names[i])));
+		const conflicts = items.filter(i => getSyncConflictOrigin(i.fullName.slice(i.fullName.lastIndexOf('/') + 1)) !== null);
+		if(!conflicts.length) return items;
+		return await resolveSyncConflicts(items, conflicts, this.syncConflicts);
+	}
+
+	/**
+	 * Work out the type of an encrypted item, and create the object for it
+	 * @param item Encrypted item as listed by the data provider
+	 * @param name Decrypted name of the item
+	 * @param dirId ID of the parent directory
+	 */
+	private async toEncryptedItem(item: Item, name: string, dirId: DirID): Promise<EncryptedItem>{
+		let type;
+		const shortened = item.fullName.endsWith('.c9s');
+		if(item.type === 'd'){
+			type = this.cache.get<'f' | 's' | 'd'>(CacheKind.Type, dirId, item.name);
+			if(!type){
+				// Directories, symlinks and files with shortened names are all stored as folders
+				const contents = await this.scheduled(TaskPriority.High).listItems(item.fullName);
+				if(shortened && contents.find(i => i.name === 'contents.c9r')) type = 'f';
+				else if(contents.find(i => i.name === 'symlink.c9r')) type = 's';
+				else type = 'd';
+				this.cache.set(CacheKind.Type, dirId, item.name, type);
+			}
+		} else type = item.type;
+		if(type === 'f') return new EncryptedFile(this, item.name, item.fullName, name, dirId, item.lastMod, shortened);
+		else if(type === 's') return new EncryptedSymlink(this, item.name, item.fullName, name, dirId, item.lastMod, shortened);
+		else return await EncryptedDir.open(this, item.name, item.fullName, name, dirId, item.lastMod, shortened);
+	}
+
+	/**
+	 * Find an item by its name, without decrypting the names of its siblings.
+	 * As names are encrypted deterministically for each parent, the name is encrypted and looked up directly.
+	 * @param name Decrypted name of the item
+	 * @param parent ID of the parent directory
+	 * @returns The item, or null if it does not exist
+	 *
+	 * If the data provider does not support stat, the modification time of the item is not known, and is set to new Date(0).
+	 */
+	async lookup(name: string, parent: DirID): Promise<EncryptedItem | null>{
+		const listing = this.cache.get<EncryptedItem[]>(CacheKind.Listing, parent, '');
+		if(listing) return listing.find(i => i.decryptedName === name) ?? null;
+		const {path} = await this.getItemPath(name, parent);
+		let item: Item | null | undefined;
+		if(this.provider.stat) item = await this.provider.stat(path);
+		else if(await this.provider.exists(path)){
+			// Files with shortened names are folders as well, and the rest are told apart by what is in them
+			const isFolder = path.endsWith('.c9s') || (await Promise.all([
+				this.provider.exists(`${path}/dir.c9r`),
+				this.provider.exists(`${path}/symlink.c9r`)
+			])).includes(true);
+			item = {type: isFolder ? 'd' : 'f', name: path.slice(path.lastIndexOf('/') + 1), fullName: path, lastMod: new Date(0)};
 		}
+		if(!item) return null;
+		return await this.toEncryptedItem(item, name, parent);
 	}
 
 	/**
@@ -456,19 +917,18 @@ export class Vault {
 	 * @param name Name of the folder
 	 * @param parent Directory ID of the parent folder
 	 * @param fixedId ID of the directory to create, will be random if not specified
-	 * @returns New EncryptedDir object that corresponds to the new directory
+	 * @param conflict What to do if an item with the same name exists. Defaults to fail.
+	 * @returns New EncryptedDir object that corresponds to the new directory, or the existing directory if it was skipped
+	 * @throws ConflictError if an item with the same name exists and cannot be overwritten
 	 */
-	async createDirectory(name: string, parent: DirID, fixedId?: DirID | null){
+	async createDirectory(name: string, parent: DirID, fixedId?: DirID | null, conflict: ConflictPolicy = 'fail'){
+		const resolved = await checkConflict(this, name, parent, 'd', conflict);
+		if(resolved.existing && conflict === 'skip') return resolved.existing;
+		// A directory cannot be written over, as its contents would be left behind under the old ID
+		const aside = resolved.existing ? await setAside(resolved.existing) : null;
+		name = resolved.name;
 		const dirId = ((fixedId || fixedId === null) ? fixedId : v4()) as DirID;
-		const encDir = await this.getDir(parent);
-		const encName = await this.encryptFileName(name, parent);
-		const needsToBeShortened = encName.length > this.vaultSettings.shorteningThreshold;
-		let dir;
-		if(needsToBeShortened){
-			const shortened = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(encName));
-			const shortDir = base64url.encode(new Uint8Array(shortened));
-			dir = `${encDir}/${shortDir}.c9s`
-		} else dir = `${encDir}/${encName}.c9r`;
+		const {encName, path: dir, shortened: needsToBeShortened} = await this.getItemPath(name, parent);
 		const dirFolder = await this.getDir(dirId);
 		try{
 			await Promise.all([
@@ -479,16 +939,56 @@ export class Vault {
 				this.provider.writeFile(`${dir}/dir.c9r`, dirId)
 			];
 			if (needsToBeShortened) tasks.push(this.provider.writeFile(`${dir}/name.c9s`, encName));
+			tasks.push(this.writeDirIdBackup(dirId));
 			await Promise.all(tasks);
 		} catch (e) {
 			await Promise.allSettled([
 				this.provider.removeDir(dir),
 				this.provider.removeDir(dirFolder)
 			]);
+			if(aside) await Promise.allSettled([aside.restore()]);
 			throw e;
+		} finally {
+			this.cache.invalidate(parent);
 		}
-		return await EncryptedDir.open(this, encName, dir as ItemPath, name, parent, new Date(), needsToBeShortened, {dirId: dirId});
-		// await this.provider.writeFile(`${dirFolder}/dirid.c9r`, ) TODO: https://docs.cryptomator.org/en/latest/security/architecture/#backup-directory-ids
+		if(aside) await aside.commit();
+		return await EncryptedDir.open(this, encName, dir, name, parent, new Date(), needsToBeShortened, {dirId: dirId});
+	}
+
+	/**
+	 * Create a symlink under a given directory ID
+	 * @param name Name of the symlink
+	 * @param target Path the symlink points to. This is stored as-is, and is not checked in any way.
+	 * @param parent Directory ID of the parent folder
+	 * @param conflict What to do if an item with the same name exists. Defaults to fail.
+	 * @returns New EncryptedSymlink object that corresponds to the new symlink, or the existing symlink if it was skipped
+	 * @throws ConflictError if an item with the same name exists and cannot be overwritten
+	 */
+	async createSymlink(name: string, target: string, parent: DirID, conflict: ConflictPolicy = 'fail'){
+		const resolved = await checkConflict(this, name, parent, 's', conflict);
+		if(resolved.existing && conflict === 'skip') return resolved.existing;
+		const aside = resolved.existing ? await setAside(resolved.existing) : null;
+		name = resolved.name;
+		const {encName, path: dir, shortened: needsToBeShortened} = await this.getItemPath(name, parent);
+		const encTarget = await EncryptedFile.encryptBuffer(this, new TextEncoder().encode(target));
+		try{
+			await this.provider.createDir(dir, true);
+			const tasks = [
+				this.provider.writeFile(`${dir}/symlink.c9r`, encTarget)
+			];
+			if (needsToBeShortened) tasks.push(this.provider.writeFile(`${dir}/name.c9s`, encName));
+			await Promise.all(tasks);
+		} catch (e) {
+			await Promise.allSettled([
+				this.provider.removeDir(dir)
+			]);
+			if(aside) await Promise.allSettled([aside.restore()]);
+			throw e;
+		} finally {
+			this.cache.invalidate(parent);
+		}
+		if(aside) await aside.commit();
+		return new EncryptedSymlink(this, encName, dir, name, parent, new Date(), needsToBeShortened, target);
 	}
 
 	/**
@@ -502,10 +1002,11 @@ export class Vault {
 	/**
 	 * Create a directory in root
 	 * @param name Name of the folder
+	 * @param conflict What to do if an item with the same name exists. Defaults to fail.
 	 * @returns New EncryptedDir object that corresponds to the new directory
 	 */
-	async createDirAtRoot(name: string){
-		return await this.createDirectory(name, '' as DirID);
+	async createDirAtRoot(name: string, conflict?: ConflictPolicy){
+		return await this.createDirectory(name, '' as DirID, undefined, conflict);
 	}
 
 	/**
@@ -513,7 +1014,19 @@ export class Vault {
 	 * @param f EncryptedFile object of the file to delete
 	 */
 	async deleteFile(f: EncryptedFile) {
-		await this.provider.removeFile(f.fullName);
+		// Files with shortened names are folders that contain contents.c9r and name.c9s
+		if(f.shortened) await this.provider.removeDir(f.fullName);
+		else await this.provider.removeFile(f.fullName);
+		this.cache.invalidate(f.parentId as DirID);
+	}
+
+	/**
+	 * Delete a symlink the EncryptedSymlink object corresponds to. The target of the symlink is not affected. Object passed to this function should never be used.
+	 * @param s EncryptedSymlink object of the symlink to delete
+	 */
+	async deleteSymlink(s: EncryptedSymlink) {
+		await this.provider.removeDir(s.fullName);
+		this.cache.invalidate(s.parentId as DirID);
 	}
 
 	/**
@@ -522,35 +1035,179 @@ export class Vault {
 	 * @param onDiscover A callback that is called whenever a directory has been searched successfully. If toDiscover is 0, it can be assumed that delete operation is in progress.
 	 */
 	async deleteDir(d: EncryptedDir, onDiscover?: (discovered: number, toDiscover: number) => void) {
-		const dirIdList: DirID[] = [await d.getDirId()];
-		const dirList: string[] = [d.fullName];
-		while(dirIdList.length){
-			const current = dirIdList.pop() as DirID;
-			const items = await this.listItems(current);
+		let discovered = 1;
+		const deletedIds: DirID[] = [];
+		let toDiscover = 1;
+		// Subdirectories are searched in parallel, as far as the scheduler allows
+		const discover = async (dirId: DirID): Promise<void> => {
+			deletedIds.push(dirId);
+			const items = await this.listItems(dirId);
+			const subdirs: Promise<void>[] = [];
 			for(const i of items){
-				if(i.type === 'd') dirIdList.push(await i.getDirId());
-				dirList.push(i.fullName);
+				discovered++;
+				if(i.type === 'd'){
+					toDiscover++;
+					subdirs.push(i.getDirId().then(discover));
+				}
+			}
+			toDiscover--;
+			if(onDiscover) onDiscover(discovered, toDiscover);
+			await Promise.all(subdirs);
+		};
+		await discover(await d.getDirId());
+		const provider = this.scheduled(TaskPriority.Low);
+		try{
+			// Everything in the directories goes with their folders under d/.
+			// The link is removed last, so that a failure does not leave folders behind that the health check would recover.
+			await Promise.all(deletedIds.map(async id => provider.removeDir(await this.getDir(id))));
+			await provider.removeDir(d.fullName);
+		} finally {
+			if(d.parentId !== null) this.cache.invalidate(d.parentId);
+			for(const id of deletedIds){
+				this.cache.invalidate(id);
+				this.dirLinks.delete(id);
 			}
-			if(onDiscover) onDiscover(dirList.length, dirIdList.length);
-		}
-		const delOps: Promise<void>[] = [];
-		for(const d of dirList) delOps.push(this.provider.removeDir(d));
-		if(this.queryOpts.concurrency === -1) await Promise.all(delOps);
-		else {
-			const chunks = [];
-			while(delOps.length) chunks.push(delOps.splice(0, this.queryOpts.concurrency));
-			for(const c of chunks) await Promise.all(c);
 		}
 	}
 
 
+	/**
+	 * Walk the whole vault, and look for problems such as orphaned folders, missing files and corrupted names or contents.
+	 * Nothing is changed unless the fix function of a finding is called.
+	 * @param options Health check options
+	 * @param options.checkContents If true, contents of every file and symlink is verified as well
+	 * @param options.recoveryDirName Name of the folder in root that orphaned directories are linked into
+	 * @param options.onProgress Callback that is called whenever a directory has been checked
+	 * @returns List of problems found in the vault, each with an optional automated fix
+	 */
+	async healthCheck(options?: HealthCheckOpts){
+		return await checkVault(this, options);
+	}
+
+	/**
+	 * Find the item at a cleartext path, such as /photos/2024/a.jpg
+	 * Each name is looked up directly in its parent, so that names of other items are never decrypted.
+	 * @param path Cleartext path, relative to the root of the vault
+	 * @returns The item at the path. For "/", the root directory.
+	 * @throws NotFoundError if nothing exists at the path
+	 */
+	async resolve(path: string){
+		return await resolvePath(this, path);
+	}
+
+	/**
+	 * Decrypt the file at a cleartext path
+	 * @param path Cleartext path of the file
+	 * @returns Decrypted content
+	 * @throws NotFoundError if nothing exists at the path
+	 * @throws ItemTypeError if the item is not a file
+	 */
+	async readFile(path: string){
+		return await readFileAt(this, path);
+	}
+
+	/**
+	 * Encrypt a file into a cleartext path. An existing file at the path is overwritten, unless another conflict policy is given.
+	 * @param path Cleartext path of the file
+	 * @param data Content of the file
+	 * @param conflict What to do if an item exists at the path. Defaults to overwrite.
+	 * @returns EncryptedFile object of the written file, or the existing file if it was skipped
+	 * @throws NotFoundError if the parent directory does not exist
+	 * @throws ItemTypeError if a directory or a symlink exists at the path, and the policy is not rename-with-suffix
+	 * @throws ConflictError if a file exists at the path, and the policy is fail
+	 */
+	async writeFile(path: string, data: Uint8Array | string, conflict?: ConflictPolicy){
+		return await writeFileAt(this, path, data, conflict);
+	}
+
+	/**
+	 * Create a directory at a cleartext path
+	 * @param path Cleartext path of the directory
+	 * @param options.recursive If true, missing parent directories are created too, and an existing directory is not an error
+	 * @returns EncryptedDir object of the directory
+	 * @throws NotFoundError if the parent directory does not exist, and recursive is not set
+	 * @throws ExistsError if something already exists at the path
+	 */
+	async mkdir(path: string, options?: {recursive?: boolean}){
+		return await mkdirAt(this, path, options);
+	}
+
+	/**
+	 * Delete the item at a cleartext path. Directories are deleted recursively.
+	 * @param path Cleartext path of the item
+	 * @throws NotFoundError if nothing exists at the path
+	 */
+	async remove(path: string){
+		await removeAt(this, path);
+	}
+
+	/**
+	 * Get the type, name, last modification date and size of the item at a cleartext path
+	 * @param path Cleartext path of the item
+	 * @throws NotFoundError if nothing exists at the path
+	 */
+	async stat(path: string){
+		return await statAt(this, path);
+	}
+
+	/**
+	 * Copy an item of this vault or another vault into a directory of this vault. Directories are copied along with everything in them.
+	 * Files are copied without decrypting them within a vault, and decrypted and encrypted again from another vault.
+	 * @param item Item to copy
+	 * @param to ID of the directory the copy goes into
+	 * @param newName Name of the copy. Defaults to the name of the item.
+	 * @param onProgress A callback that is called whenever an item or a chunk of file content has been copied
+	 * @param conflict What to do if an item with the name already exists in the directory. Defaults to fail.
+	 * @returns The copy, or the existing item if it was skipped
+	 * @throws ConflictError if an item with the name already exists in the directory, and cannot be overwritten
+	 * @throws RangeError if a directory is copied into itself
+	 * @throws RangeError if the overwritten directory contains the item
+	 */
+	async copy(item: EncryptedItem, to: DirID, newName?: string, onProgress?: (progress: CopyProgress) => void, conflict: ConflictPolicy = 'fail'){
+		return await copyItem(item, this, to, newName ?? item.decryptedName, onProgress, conflict);
+	}
+
+	/**
+	 * Encrypt everything in a directory of a data provider into this vault, keeping the hierarchy.
+	 * File contents are streamed, and failures are collected in the summary instead of stopping the import.
+	 * @param source Data provider to read from, such as LocalStorageProvider for a local folder
+	 * @param sourcePath Directory whose contents are imported
+	 * @param to ID of the directory the contents go into
+	 * @param options.conflict What to do with files that already exist. Defaults to fail, which reports them as failures.
+	 * @param options.concurrency Max number of files that are imported at once. Defaults to 4.
+	 * @param options.onProgress Callback that is called whenever a file is done or a chunk of it has been read
+	 * @returns Numbers of imported files, skipped files, created directories and bytes, and the failures
+	 * @throws Whatever the source throws if sourcePath cannot be listed
+	 */
+	async importTree(source: DataProvider, sourcePath: string, to: DirID, options?: ImportOpts){
+		return await importTree(this, source, sourcePath, to, options);
+	}
+
+	/**
+	 * Decrypt everything in a directory of this vault into a data provider, keeping the hierarchy and modification times.
+	 * Every chunk of each file is verified before it is written, and failures are collected in the summary instead of stopping the export.
+	 * @param dir Directory whose contents are exported, such as the one returned by getRootDir
+	 * @param target Data provider to write to, such as LocalStorageProvider for a local folder
+	 * @param targetPath Directory the contents go into. It is created if it does not exist.
+	 * @param options.conflict What to do with files that already exist. Defaults to fail, which reports them as failures.
+	 * @param options.concurrency Max number of files that are exported at once. Defaults to 4.
+	 * @param options.onProgress Callback that is called whenever a file is done
+	 * @returns Numbers of exported files, skipped files and symbolic links, created directories and bytes, and the failures
+	 * @throws Whatever the vault throws if dir cannot be listed
+	 * @throws Whatever the target throws if targetPath cannot be created
+	 */
+	async exportTree(dir: EncryptedDir, target: DataProvider, targetPath: string, options?: ExportOpts){
+		return await exportTree(this, dir, target, targetPath, options);
+	}
+
 	/**
 	 * Move multiple items into a chosen folder.
 	 * Not all items needs to be from a single folder.
 	 * @param items List of items to move
 	 * @param to Move operation destination
+	 * @param conflict What to do if an item with the same name exists in the destination. Defaults to fail.
 	 */
-	static async move(items: EncryptedItem[], to: DirID){
-		await Promise.all(items.map(v => v.move(to)));
+	static async move(items: EncryptedItem[], to: DirID, conflict?: ConflictPolicy){
+		await Promise.all(items.map(v => v.move(to, conflict)));
 	}
 }
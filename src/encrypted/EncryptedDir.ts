@@ -1,3 +1,6 @@
+import { CacheKind } from "../Cache";
+import type { ConflictPolicy } from "../Conflicts";
+import type { StreamSource } from "../Stream";
 import type { Directory, DirID, ItemPath } from "../types";
 import { Vault } from "../Vault";
 import { EncryptedFile } from "./EncryptedFile";
@@ -38,16 +41,16 @@ export class EncryptedDir extends EncryptedItemBase implements Directory{
 			dirId?: DirID
 		}
 	){
-		let dirId: DirID | null = null;
-		if(options?.dirId) dirId = options.dirId;
-		else if(options?.cacheDirId) dirId = await vault.provider.readFileString(fullName + '/dir.c9r') as DirID;
-		return new EncryptedDir(vault, name, fullName, decryptedName, parent, lastMod, dirId, shortened);
+		const dir = new EncryptedDir(vault, name, fullName, decryptedName, parent, lastMod, options?.dirId ?? null, shortened);
+		if(!options?.dirId && options?.cacheDirId) await dir.getDirId();
+		return dir;
 	}
 
 	private constructor(vault: Vault, name: string, fullName: ItemPath, decryptedName: string, parent: DirID | null, lastMod: Date, dirId: DirID | null, shortened: boolean){
 		super(vault, name, fullName, decryptedName, parent, lastMod, shortened);
 		this.dirId = dirId;
 		this.type = 'd';
+		if(dirId !== null && parent !== null) vault.dirLinks.set(dirId, {parentId: parent, link: fullName});
 	}
 
 	/**
@@ -55,14 +58,65 @@ export class EncryptedDir extends EncryptedItemBase implements Directory{
 	 * @param clearCache Query the provider to get updated directory ID.
 	 * @returns ID of this directory
 	 *
-	 * Calling this method will cache ID if it is not already.
+	 * Calling this method will cache ID if it is not already. The ID is also kept in the vault cache, if it is enabled.
 	 */
 	async getDirId(clearCache?: true){
 		if(this.parentId === null) return '' as DirID;
-		if(clearCache || !this.dirId) this.dirId = await this.vault.provider.readFileString(this.fullName + '/dir.c9r') as DirID;
+		const cacheName = this.fullName.slice(this.fullName.lastIndexOf('/') + 1);
+		if(!clearCache && !this.dirId) this.dirId = this.vault.cache.get<DirID>(CacheKind.DirId, this.parentId, cacheName) ?? null;
+		if(clearCache || !this.dirId){
+			this.dirId = await this.vault.provider.readFileString(this.fullName + '/dir.c9r') as DirID;
+			this.vault.cache.set(CacheKind.DirId, this.parentId, cacheName, this.dirId);
+		}
+		this.vault.dirLinks.set(this.dirId, {parentId: this.parentId, link: this.fullName});
 		return this.dirId;
 	}
 
+	/**
+	 * Check that the backup directory ID (dirid.c9r) in the encrypted folder matches dir.c9r that points to the folder
+	 * @returns True if the backup exists and matches, false otherwise
+	 * @throws InvalidSignatureError if the backup has been tampered with
+	 *
+	 * The directory ID is read from the provider again, and the cached ID is updated.
+	 */
+	async verifyDirId(){
+		const dirId = await this.getDirId(true);
+		const backup = await this.vault.readDirIdBackup(await this.vault.getDir(dirId));
+		return backup === dirId;
+	}
+
+	/**
+	 * Check if a directory is this directory or anywhere within it
+	 * @param dirId ID of the directory to look for
+	 * @returns True if the directory is this one or one of its descendants
+	 *
+	 * Directories do not know their parents. The ancestors of the directory are followed through the links of directories this vault object has seen,
+	 * which takes a request per level. If a link is unknown or no longer points to the directory, everything within this directory is listed level by level instead.
+	 */
+	async contains(dirId: DirID){
+		if(this.parentId === null) return true;
+		const ownId = await this.getDirId();
+		const seen = new Set<DirID>();
+		for(let id = dirId; !seen.has(id); ){
+			if(id === ownId) return true;
+			if(id === '') return false;
+			seen.add(id);
+			const known = this.vault.dirLinks.get(id);
+			if(!known || await this.vault.provider.readFileString(`${known.link}/dir.c9r`).catch(() => null) !== id) break;
+			id = known.parentId;
+		}
+		let level = [ownId];
+		while(level.length){
+			if(level.includes(dirId)) return true;
+			const next: DirID[] = [];
+			await Promise.all(level.map(async id => {
+				for(const item of await this.vault.listItems(id)) if(item.type === 'd') next.push(await item.getDirId());
+			}));
+			level = next;
+		}
+		return false;
+	}
+
 	/**
 	 * List directories and files in this directory. Most likely easier to use than using vault's listItems method directly.
 	 * @returns Items under this directory
@@ -75,10 +129,22 @@ export class EncryptedDir extends EncryptedItemBase implements Directory{
 	 * Create a directory under this directory
 	 * @param name Name of the new directory
 	 * @param fixedId ID of the directory to create, will be random if not specified
+	 * @param conflict What to do if an item with the same name exists. Defaults to fail.
 	 * @returns New EncryptedDir object that corresponds to the created directory
 	 */
-	async createDirectory(name: string, fixedId?: DirID | null){
-		return await this.vault.createDirectory(name, await this.getDirId(), fixedId);
+	async createDirectory(name: string, fixedId?: DirID | null, conflict?: ConflictPolicy){
+		return await this.vault.createDirectory(name, await this.getDirId(), fixedId, conflict);
+	}
+
+	/**
+	 * Create a symlink under this directory
+	 * @param name Name of the symlink
+	 * @param target Path the symlink points to
+	 * @param conflict What to do if an item with the same name exists. Defaults to fail.
+	 * @returns New EncryptedSymlink object that corresponds to the created symlink
+	 */
+	async createSymlink(name: string, target: string, conflict?: ConflictPolicy){
+		return await this.vault.createSymlink(name, target, await this.getDirId(), conflict);
 	}
 
 	/**
@@ -92,9 +158,21 @@ export class EncryptedDir extends EncryptedItemBase implements Directory{
 	 * Create a file under this directory
 	 * @param name Name of the file
 	 * @param content Content of the file
+	 * @param conflict What to do if an item with the same name exists. Defaults to fail.
+	 * @returns EncryptedFile object that corresponds to the input
+	 */
+	async createFile(name: string, content: Uint8Array | string, conflict?: ConflictPolicy){
+		return await EncryptedFile.encrypt(this.vault, name, this, content, undefined, conflict);
+	}
+
+	/**
+	 * Create a file under this directory from a stream, without keeping the whole content in memory
+	 * @param name Name of the file
+	 * @param content Stream of the file content
+	 * @param conflict What to do if an item with the same name exists. Defaults to fail.
 	 * @returns EncryptedFile object that corresponds to the input
 	 */
-	async createFile(name: string, content: Uint8Array | string){
-		return await EncryptedFile.encrypt(this.vault, name, this, content);
+	async createFileStream(name: string, content: StreamSource, conflict?: ConflictPolicy){
+		return await EncryptedFile.encryptStream(this.vault, name, this, content, undefined, conflict);
 	}
 }
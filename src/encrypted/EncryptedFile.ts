@@ -1,45 +1,102 @@
 import { base64url } from "jose";
 import type { ProgressCallback } from "../DataProvider";
-import { DecryptionTarget, InvalidSignatureError } from "../Errors";
-import type { ContentKey, DirID, File, ItemPath } from "../types";
+import { FileHeader, getCleartextSize } from "../Cipher";
+import { checkConflict, ConflictPolicy, setAside } from "../Conflicts";
+import { collect, StreamReader, StreamSource } from "../Stream";
+import type { DirID, File, Item, ItemPath } from "../types";
 import { Vault } from "../Vault";
 import { EncryptedDir } from "./EncryptedDir";
 import { EncryptedItemBase } from "./EncryptedItemBase";
 
-type Header = {
-	contentKey: ContentKey;
-	nonce: Uint8Array;
-}
-
 export class EncryptedFile extends EncryptedItemBase implements File{
 	type: 'f';
 
-	static async encryptChunk(vault: Vault, header: Header, chunk: Uint8Array, chunkNum: number): Promise<Uint8Array>{
-		const nonce = crypto.getRandomValues(new Uint8Array(16));
-		const encrypted = new Uint8Array(await crypto.subtle.encrypt(
-			{
-				name: 'AES-CTR',
-				counter: nonce,
-				length: 32
-			},
-			header.contentKey,
-			chunk
-		));
-		const payload = new Uint8Array(40 + chunk.byteLength);
-		payload.set(header.nonce, 0);
-		const cCount = new Uint8Array(BigUint64Array.from([BigInt(chunkNum)]).buffer);
-		cCount.reverse();
-		payload.set(cCount, 16);
-		payload.set(nonce, 24);
-		payload.set(encrypted, 40);
-		const sig = new Uint8Array(await crypto.subtle.sign('HMAC', vault.macKey, payload));
-		const result = new Uint8Array(16 + chunk.byteLength + 32);
-		result.set(nonce, 0);
-		result.set(encrypted, 16);
-		result.set(sig, 16 + chunk.byteLength);
-		return result;
+	/**
+	 * Encrypt a chunk of any file for the given vault
+	 * @param vault The vault the chunk will be encrypted for
+	 * @param header Header object that contains file nonce and content key
+	 * @param chunk Up to 32KiB of content
+	 * @param chunkNum The chunk number
+	 * @returns Encrypted chunk in Uint8Array
+	 */
+	static async encryptChunk(vault: Vault, header: FileHeader, chunk: Uint8Array, chunkNum: number): Promise<Uint8Array>{
+		return await vault.cipher.encryptChunk(header, chunk, chunkNum);
 	}
 
+	/**
+	 * Decrypt a chunk of any file encrypted for the given vault
+	 * @param vault The vault the chunk was encrypted for
+	 * @param header Header object that contains file nonce and content key
+	 * @param chunk Encrypted chunk
+	 * @param chunkNumber The chunk number
+	 * @returns Decrypted chunk in Uint8Array
+	 * @throws InvalidSignatureError if the HMAC signature or GCM tag verification fails
+	 */
+	static async decryptChunkWith(vault: Vault, header: FileHeader, chunk: Uint8Array, chunkNumber: number): Promise<Uint8Array>{
+		return await vault.cipher.decryptChunk(header, chunk, chunkNumber);
+	}
+
+	/**
+	 * Decrypt a header of any file encrypted for the given vault
+	 * @param vault The vault the header was encrypted for
+	 * @param data Encrypted file, or at least the header part of it (88 bytes for SIV_CTRMAC, 68 bytes for SIV_GCM)
+	 * @returns Content key that should be used for decrypting file content
+	 * @throws InvalidSignatureError if the HMAC signature or GCM tag verification fails
+	 */
+	static async decryptHeaderWith(vault: Vault, data: Uint8Array): Promise<FileHeader>{
+		return await vault.cipher.decryptHeader(data);
+	}
+
+	/**
+	 * Encrypt content in memory, with a newly generated header
+	 * @param vault The vault the content will be encrypted for
+	 * @param content Content to encrypt
+	 * @param callback Callback that will be called whenever a chunk gets encrypted
+	 * @returns Encrypted header followed by encrypted chunks
+	 */
+	static async encryptBuffer(vault: Vault, content: Uint8Array, callback?: ProgressCallback): Promise<Uint8Array>{
+		const {headerSize, chunkSize, encChunkSize} = vault.cipher;
+		const {header, encrypted: encHeader} = await EncryptedFile.createHeader(vault);
+		const iterCount = Math.ceil(content.byteLength / chunkSize);
+		const encrypted = new Uint8Array(headerSize + content.byteLength + iterCount * (encChunkSize - chunkSize));
+		encrypted.set(encHeader, 0);
+		for(let i = 0; i < iterCount; i++){
+			const chunk = content.subarray(i * chunkSize, (i + 1) * chunkSize);
+			encrypted.set(await EncryptedFile.encryptChunk(vault, header, chunk, i), headerSize + i * encChunkSize);
+			if(callback) callback(i, iterCount);
+		}
+		return encrypted;
+	}
+
+	/**
+	 * Decrypt content in memory
+	 * @param vault The vault the content was encrypted for
+	 * @param data Encrypted header followed by encrypted chunks
+	 * @param callback Callback that will be called every time a chunk is decrypted
+	 * @returns Decrypted content
+	 * @throws InvalidSignatureError if the header or any of the chunks fail verification
+	 */
+	static async decryptBuffer(vault: Vault, data: Uint8Array, callback?: ProgressCallback): Promise<Uint8Array>{
+		const {headerSize, chunkSize, encChunkSize} = vault.cipher;
+		const header = await EncryptedFile.decryptHeaderWith(vault, data);
+		const iterCount = Math.ceil((data.byteLength - headerSize) / encChunkSize);
+		const decrypted = new Uint8Array(Math.max(0, data.byteLength - headerSize - iterCount * (encChunkSize - chunkSize)));
+		for(let i = 0; i < iterCount; i++){
+			const chunk = data.subarray(i * encChunkSize + headerSize, (i + 1) * encChunkSize + headerSize);
+			decrypted.set(await EncryptedFile.decryptChunkWith(vault, header, chunk, i), i * chunkSize);
+			if(callback) callback(i + 1, iterCount);
+		}
+		return decrypted;
+	}
+
+	/**
+	 * Generate a new file header with a random content key
+	 * @param vault The vault the file will be encrypted into
+	 * @returns Header object for encrypting chunks, and the encrypted header that goes in front of the file
+	 */
+	static async createHeader(vault: Vault): Promise<{header: FileHeader, encrypted: Uint8Array}>{
+		return await vault.cipher.createHeader();
+	}
 
 	/**
 	 * Encrypt a file, and upload it to the vault
@@ -49,7 +106,9 @@ export class EncryptedFile extends EncryptedItemBase implements File{
 	 * @param content Content of the file prior to encryption
 	 * @param callbacks.encryption Callback that will be called whenever a chunk gets encrypted
 	 * @param callbacks.upload Callback that will be called whenever data provider invokes callback in upload
-	 * @returns Corresponding EncryptedFile object
+	 * @param conflict What to do if an item with the same name exists. Defaults to fail.
+	 * @returns Corresponding EncryptedFile object, or the existing file if it was skipped
+	 * @throws ConflictError if an item with the same name exists and cannot be overwritten
 	 */
 	static async encrypt(
 		vault: Vault,
@@ -59,79 +118,129 @@ export class EncryptedFile extends EncryptedItemBase implements File{
 		callbacks?: {
 			encryption?: ProgressCallback,
 			upload?: ProgressCallback
-		}
+		},
+		conflict: ConflictPolicy = 'fail'
 	): Promise<EncryptedFile>{
 		if(typeof(content) === 'string') content = new TextEncoder().encode(content);
-		const nonce = crypto.getRandomValues(new Uint8Array(16));
-		const contentKeyBuffer = crypto.getRandomValues(new Uint8Array(32));
-		const contentKey = await crypto.subtle.importKey(
-			'raw',
-			contentKeyBuffer,
-			'AES-CTR',
-			false,
-			['encrypt', 'decrypt']
-		) as ContentKey;
-		const payload = new Uint8Array(40);
-		payload.fill(255, 0, 8);
-		payload.set(contentKeyBuffer, 8);
-		contentKeyBuffer.fill(0);
-		const encPayload = new Uint8Array(await crypto.subtle.encrypt(
-			{
-				name: 'AES-CTR',
-				counter: nonce,
-				length: 32
-			},
-			vault.encKey,
-			payload
-		));
-
+		const encrypted = await EncryptedFile.encryptBuffer(vault, content, callbacks?.encryption);
+		return await EncryptedFile.upload(vault, name, parent, async (path) => {
+			await vault.provider.writeFile(path, encrypted, callbacks?.upload);
+		}, conflict);
+	}
 
-		let encrypted = new Uint8Array(88);
-		encrypted.set(nonce, 0);
-		encrypted.set(encPayload, 16);
-		const sig = new Uint8Array(await crypto.subtle.sign('HMAC', vault.macKey, encrypted.slice(0, 56)));
-		encrypted.set(sig, 56);
-		const chunkSize = 32768; // 32KiB
-		const iterCount = Math.ceil(content.byteLength / chunkSize);
-		for(let i = 0; i < iterCount; i++){
-			const chunk = content.slice(i * chunkSize, (i + 1) * chunkSize);
-			encrypted = concat(encrypted, await EncryptedFile.encryptChunk(vault, {
-				contentKey: contentKey,
-				nonce: nonce
-			}, chunk, i));
-			if(callbacks?.encryption) callbacks.encryption(i, iterCount);
+	/**
+	 * Encrypt a stream, and upload it to the vault without keeping the whole file in memory.
+	 * If the data provider does not support writing streams, encrypted content is collected and uploaded at once.
+	 * @param vault The vault this item will be encrypted and uploaded to
+	 * @param name Name of the file to encrypt
+	 * @param parent Directory ID of the parent ID. Can be EncryptedDir, DirID, or null (which indicates root).
+	 * @param content Stream of the file content prior to encryption
+	 * @param callbacks.encryption Callback that will be called whenever a chunk gets encrypted. Total is always -1 as the size is not known in advance.
+	 * @param callbacks.upload Callback that will be called whenever data provider invokes callback in upload
+	 * @param conflict What to do if an item with the same name exists. Defaults to fail.
+	 * @returns Corresponding EncryptedFile object, or the existing file if it was skipped
+	 * @throws ConflictError if an item with the same name exists and cannot be overwritten
+	 */
+	static async encryptStream(
+		vault: Vault,
+		name: string,
+		parent: DirID | null | EncryptedDir,
+		content: StreamSource,
+		callbacks?: {
+			encryption?: ProgressCallback,
+			upload?: ProgressCallback
+		},
+		conflict: ConflictPolicy = 'fail'
+	): Promise<EncryptedFile>{
+		const chunkSize = vault.cipher.chunkSize;
+		const {header, encrypted: encHeader} = await EncryptedFile.createHeader(vault);
+		const reader = new StreamReader(content);
+		const encrypted = async function* (){
+			yield encHeader;
+			for(let i = 0; ; i++){
+				const chunk = await reader.read(chunkSize);
+				if(!chunk.byteLength) return;
+				yield await EncryptedFile.encryptChunk(vault, header, chunk, i);
+				if(callbacks?.encryption) callbacks.encryption(i + 1, -1);
+			}
+		}
+		try{
+			return await EncryptedFile.upload(vault, name, parent, async (path) => {
+				if(vault.provider.writeFileStream) await vault.provider.writeFileStream(path, encrypted(), callbacks?.upload);
+				else await vault.provider.writeFile(path, await collect(encrypted()), callbacks?.upload);
+			}, conflict);
+		} finally {
+			await reader.close();
 		}
+	}
 
+	/**
+	 * Determine where the file should be stored, and write the encrypted content there
+	 * @param vault The vault this item will be uploaded to
+	 * @param name Name of the file prior to encryption
+	 * @param parent Directory ID of the parent ID. Can be EncryptedDir, DirID, or null (which indicates root).
+	 * @param write Function that writes the encrypted content into the given path
+	 * @param conflict What to do if an item with the same name exists. Defaults to fail. An existing file is set aside, and deleted once the new content has been written.
+	 * @returns Corresponding EncryptedFile object, or the existing file if it was skipped
+	 * @throws ConflictError if an item with the same name exists and cannot be overwritten
+	 */
+	static async upload(
+		vault: Vault,
+		name: string,
+		parent: DirID | null | EncryptedDir,
+		write: (path: string) => Promise<void>,
+		conflict: ConflictPolicy = 'fail'
+	): Promise<EncryptedFile>{
 		let parentId: DirID;
 		if(parent === null) parentId = '' as DirID;
 		else if(typeof(parent) === 'string') parentId = parent;
 		else parentId = await parent.getDirId();
+		const resolved = await checkConflict(vault, name, parentId, 'f', conflict);
+		if(resolved.existing && conflict === 'skip') return resolved.existing;
+		name = resolved.name;
 		const encryptedDir = await vault.getDir(parentId);
 		await vault.provider.createDir(encryptedDir, true);
 		const fileName = await vault.encryptFileName(name, parentId);
-		if(fileName.length > vault.vaultSettings.shorteningThreshold){
-			const shortened = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(fileName));
-			const shortDir = base64url.encode(new Uint8Array(shortened));
-			const fileDir = `${encryptedDir}/${shortDir}.c9s` as ItemPath;
-			// No need to clean up if creating directory fails
-			await vault.provider.createDir(fileDir, true);
-			try{
-				await Promise.all([
-					vault.provider.writeFile(`${fileDir}/contents.c9r`, encrypted, callbacks?.upload),
-					vault.provider.writeFile(`${fileDir}/name.c9s`, fileName)
-				]);
-				return new EncryptedFile(vault, fileName, fileDir, name, parentId, new Date(), true);
-			} catch(e) {
-				await vault.provider.removeDir(fileDir);
-				throw e;
+		// The existing file is kept until the new content has been written completely
+		const aside = resolved.existing ? await setAside(resolved.existing) : null;
+		vault.cache.invalidate(parentId);
+		let file: EncryptedFile;
+		try{
+			if(fileName.length > vault.vaultSettings.shorteningThreshold){
+				const shortened = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(fileName));
+				const shortDir = base64url.encode(new Uint8Array(shortened));
+				const fileDir = `${encryptedDir}/${shortDir}.c9s` as ItemPath;
+				// No need to clean up if creating directory fails
+				await vault.provider.createDir(fileDir, true);
+				try{
+					await Promise.all([
+						write(`${fileDir}/contents.c9r`),
+						vault.provider.writeFile(`${fileDir}/name.c9s`, fileName)
+					]);
+				} catch(e) {
+					await Promise.allSettled([
+						vault.provider.removeDir(fileDir)
+					]);
+					throw e;
+				}
+				file = new EncryptedFile(vault, fileName, fileDir, name, parentId, new Date(), true);
+			} else {
+				const fileDir = `${encryptedDir}/${fileName}.c9r` as ItemPath;
+				try{
+					await write(fileDir);
+				} catch(e) {
+					// Whatever has been written of the content is of no use
+					if(aside) await Promise.allSettled([vault.provider.removeFile(fileDir)]);
+					throw e;
+				}
+				file = new EncryptedFile(vault, fileName, fileDir, name, parentId, new Date(), false);
 			}
-
-		} else {
-			const fileDir = `${encryptedDir}/${fileName}.c9r` as ItemPath;
-			await vault.provider.writeFile(fileDir, encrypted, callbacks?.upload);
-			return new EncryptedFile(vault, fileName, fileDir, name, parentId, new Date(), false);
+		} catch(e) {
+			if(aside) await Promise.allSettled([aside.restore()]);
+			throw e;
 		}
-
+		if(aside) await aside.commit();
+		return file;
 	}
 
 	constructor(vault: Vault, name: string, fullName: ItemPath, decryptedName: string, parentId: DirID, lastMod: Date, shortened: boolean){
@@ -142,40 +251,11 @@ export class EncryptedFile extends EncryptedItemBase implements File{
 	/**
 	 * Decrypts a file header
 	 * @returns Content key that should be used for decrypting file content
-	 * @throws InvalidSignatureError if HMAC verification fails
+	 * @throws InvalidSignatureError if the header has been tampered with
 	 */
-	async decryptHeader(data?: Uint8Array): Promise<Header>{
+	async decryptHeader(data?: Uint8Array): Promise<FileHeader>{
 		if(!data) data = await this.readEncryptedFile();
-		const payload = data.slice(0, 56);
-		const nonce = data.slice(0, 16);
-		const encContentKey = data.slice(16, 56);
-		const hmac = data.slice(56, 88);
-
-		const sig = new Uint8Array(await crypto.subtle.sign('HMAC', this.vault.macKey, payload));
-		if(!isEqual(hmac, sig)) throw new InvalidSignatureError(DecryptionTarget.File);
-
-		const exportedContentKey = new Uint8Array(await crypto.subtle.decrypt(
-			{
-				name: 'AES-CTR',
-				counter: nonce,
-				length: 32
-			},
-			this.vault.encKey,
-			encContentKey
-		));
-
-		const contentKey = await crypto.subtle.importKey(
-			'raw',
-			exportedContentKey.slice(8),
-			'AES-CTR',
-			false,
-			['encrypt', 'decrypt']
-		) as ContentKey;
-
-		return {
-			contentKey: contentKey,
-			nonce: nonce
-		};
+		return await EncryptedFile.decryptHeaderWith(this.vault, data);
 	}
 
 	/**
@@ -184,8 +264,46 @@ export class EncryptedFile extends EncryptedItemBase implements File{
 	 * @returns Uint8array of the encrypted file content
 	 */
 	async readEncryptedFile(download?: ProgressCallback){
-		if(this.shortened) return await this.vault.provider.readFile(this.fullName + '/contents.c9r', download);
-		return await this.vault.provider.readFile(this.fullName, download);
+		return await this.vault.provider.readFile(this.getContentPath(), download);
+	}
+
+	/**
+	 * Get the path of the file that holds the encrypted content
+	 * @returns this.fullName, or contents.c9r within it if the name is shortened
+	 */
+	getContentPath(){
+		if(this.shortened) return `${this.fullName}/contents.c9r` as ItemPath;
+		return this.fullName;
+	}
+
+	/**
+	 * Get the size of the decrypted content, without downloading the file
+	 * @returns Size in bytes, or null if the data provider does not report sizes
+	 */
+	async getSize(): Promise<number | null>{
+		const path = this.getContentPath();
+		const provider = this.vault.provider;
+		let item: Item | null | undefined;
+		if(provider.stat) item = await provider.stat(path);
+		else item = (await provider.listItems(path.slice(0, path.lastIndexOf('/')))).find(i => i.name === path.slice(path.lastIndexOf('/') + 1));
+		if(item?.size === undefined) return null;
+		return getCleartextSize(this.vault.cipher, item.size);
+	}
+
+	/**
+	 * Read the encrypted file chunk by chunk
+	 * @param download Callback that will be called every time the data provider calls progress callback
+	 * @returns Encrypted file content in chunks of arbitrary size
+	 *
+	 * If the data provider does not support reading streams, the whole file is read and returned as a single chunk.
+	 */
+	readEncryptedFileStream(download?: ProgressCallback): AsyncIterable<Uint8Array>{
+		const provider = this.vault.provider;
+		const path = this.getContentPath();
+		if(provider.readFileStream) return provider.readFileStream(path, download);
+		return (async function* (){
+			yield await provider.readFile(path, download);
+		})();
 	}
 
 	/**
@@ -196,29 +314,8 @@ export class EncryptedFile extends EncryptedItemBase implements File{
 	 * @returns Decrypted chunk in Uint8Array
 	 * @throws InvalidSignatureError if the HMAC signature verification fails
 	 */
-	async decryptChunk(header: Header, chunk: Uint8Array, chunkNumber: number){
-		const ciphertextSize = chunk.byteLength - 48; //Whole block - 16 byte nonce - 32 byte MAC
-		const nonce = chunk.slice(0, 16);
-		const data = chunk.slice(16, ciphertextSize + 16); //32784
-		const hmac = chunk.slice(ciphertextSize + 16, chunk.byteLength); //32816
-		const payload = new Uint8Array(40 + ciphertextSize);
-		payload.set(header.nonce, 0);
-		const cCount = new Uint8Array(BigUint64Array.from([BigInt(chunkNumber)]).buffer);
-		cCount.reverse();
-		payload.set(cCount, 16);
-		payload.set(nonce, 24);
-		payload.set(data, 40);
-		const sig = new Uint8Array(await crypto.subtle.sign('HMAC', this.vault.macKey, payload));
-		if(!isEqual(hmac, sig)) throw new InvalidSignatureError(DecryptionTarget.File);
-		return new Uint8Array(await crypto.subtle.decrypt(
-			{
-				name: 'AES-CTR',
-				counter: nonce,
-				length: 32
-			},
-			header.contentKey,
-			data
-		));
+	async decryptChunk(header: FileHeader, chunk: Uint8Array, chunkNumber: number){
+		return await EncryptedFile.decryptChunkWith(this.vault, header, chunk, chunkNumber);
 	}
 
 	/**
@@ -232,15 +329,79 @@ export class EncryptedFile extends EncryptedItemBase implements File{
 		decrypt?: ProgressCallback
 	}){
 		const fileData = await this.readEncryptedFile(callbacks?.download);
-		const header = await this.decryptHeader(fileData);
-		const chunkSize = 32768 + 48; // 32KiB + 48 bytes
-		let decrypted = new Uint8Array();
-		const iterCount = Math.ceil((fileData.byteLength - 88) / chunkSize);
-		for(let i = 0; i < iterCount; i++){
-			const chunk = fileData.slice(i * chunkSize + 88, (i + 1) * chunkSize + 88);
-			decrypted = concat(decrypted, await this.decryptChunk(header, chunk, i));
+		return await EncryptedFile.decryptBuffer(this.vault, fileData, callbacks?.decrypt);
+	}
+
+	/**
+	 * Decrypt file content chunk by chunk, so that the whole file never has to be in memory
+	 * @param callbacks.download Callback that will be called every time the data provider calls progress callback
+	 * @param callbacks.decrypt Callback that will be called every time a chunk is decrypted. Total is always -1 as the size is not known in advance.
+	 * @returns Decrypted chunks of up to 32KiB each
+	 * @throws InvalidSignatureError if the header or any of the chunks fail verification
+	 */
+	async *decryptContentStream(callbacks?: {
+		download?: ProgressCallback,
+		decrypt?: ProgressCallback
+	}): AsyncGenerator<Uint8Array>{
+		const {headerSize, encChunkSize} = this.vault.cipher;
+		const reader = new StreamReader(this.readEncryptedFileStream(callbacks?.download));
+		try{
+			const header = await this.decryptHeader(await reader.read(headerSize));
+			for(let i = 0; ; i++){
+				const chunk = await reader.read(encChunkSize);
+				if(!chunk.byteLength) return;
+				yield await this.decryptChunk(header, chunk, i);
+				if(callbacks?.decrypt) callbacks.decrypt(i + 1, -1);
+			}
+		} finally {
+			await reader.close();
 		}
-		return decrypted;
+	}
+
+	/**
+	 * Decrypt part of the file content. Only the chunks that contain the requested range are read and verified.
+	 * If the data provider does not support ranged reads, the whole file is read instead.
+	 * @param offset Position of the first byte to read, in decrypted content
+	 * @param length Number of bytes to read
+	 * @returns Decrypted bytes, which may be fewer than requested if the range goes past the end of the file
+	 * @throws InvalidSignatureError if the header or any of the chunks fail verification
+	 * @throws RangeError if offset or length is negative or not an integer
+	 */
+	async readRange(offset: number, length: number): Promise<Uint8Array>{
+		if(!Number.isSafeInteger(offset) || !Number.isSafeInteger(length)) throw new RangeError('Offset and length must be integers.');
+		if(offset < 0 || length < 0) throw new RangeError('Offset and length must not be negative.');
+		// The size is not looked up, as a range past the end of the file just reads fewer bytes
+		length = Math.min(length, Number.MAX_SAFE_INTEGER - offset);
+		if(length === 0) return new Uint8Array();
+		const {headerSize, chunkSize, encChunkSize} = this.vault.cipher;
+		const firstChunk = Math.floor(offset / chunkSize);
+		const chunkCount = Math.floor((offset + length - 1) / chunkSize) - firstChunk + 1;
+		const start = headerSize + firstChunk * encChunkSize;
+		const provider = this.vault.provider;
+		let headerData: Uint8Array;
+		let chunkData: Uint8Array;
+		if(provider.readFileRange){
+			[headerData, chunkData] = await Promise.all([
+				provider.readFileRange(this.getContentPath(), 0, headerSize),
+				provider.readFileRange(this.getContentPath(), start, Math.min(chunkCount * encChunkSize, Number.MAX_SAFE_INTEGER - start))
+			]);
+		} else {
+			const fileData = await this.readEncryptedFile();
+			headerData = fileData.subarray(0, headerSize);
+			chunkData = fileData.subarray(start, start + chunkCount * encChunkSize);
+		}
+		const header = await this.decryptHeader(headerData);
+		// Only what has actually been read is allocated, however long the requested range is
+		const decrypted = new Uint8Array(Math.ceil(chunkData.byteLength / encChunkSize) * chunkSize);
+		let decryptedLength = 0;
+		for(let i = 0; i * encChunkSize < chunkData.byteLength; i++){
+			const chunk = chunkData.subarray(i * encChunkSize, (i + 1) * encChunkSize);
+			const cleartext = await this.decryptChunk(header, chunk, firstChunk + i);
+			decrypted.set(cleartext, decryptedLength);
+			decryptedLength += cleartext.byteLength;
+		}
+		const skip = offset - firstChunk * chunkSize;
+		return decrypted.slice(Math.min(skip, decryptedLength), Math.min(skip + length, decryptedLength));
 	}
 
 	/**
@@ -282,16 +443,3 @@ export class EncryptedFile extends EncryptedItemBase implements File{
 		await this.vault.deleteFile(this);
 	}
 }
-
-function isEqual(a: Uint8Array, b: Uint8Array){
-	if(a.byteLength !== b.byteLength) return false;
-	if(a.every((v, i) => v === b[i])) return true;
-	else return false;
-}
-
-function concat(a: Uint8Array, b: Uint8Array){
-	const ret = new Uint8Array(a.length + b.length);
-	ret.set(a, 0);
-	ret.set(b, a.length);
-	return ret;
-}
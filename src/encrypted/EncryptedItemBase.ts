@@ -1,10 +1,13 @@
-import { base64url } from "jose";
+import { checkConflict, ConflictPolicy, setAside } from "../Conflicts";
 import type { DirID, ItemBase, ItemPath } from "../types";
 import { Vault } from "../Vault";
 import { EncryptedDir } from "./EncryptedDir";
 import { EncryptedFile } from "./EncryptedFile";
+import { EncryptedSymlink } from "./EncryptedSymlink";
 
 export abstract class EncryptedItemBase implements ItemBase{
+	abstract type: 'f' | 'd' | 's';
+
 	constructor(
 		public vault: Vault,
 		public name: string,
@@ -29,55 +32,109 @@ export abstract class EncryptedItemBase implements ItemBase{
 	/**
 	 * Move an item under another directory
 	 * @param dir ID of the directory the item will go into
+	 * @param conflict What to do if an item with the same name exists in the directory. Defaults to fail.
+	 * @param newName Name the item will have in the directory. Defaults to its current name. Only this name is checked for conflicts.
+	 * @throws ConflictError if an item with the same name exists in the directory, and cannot be overwritten
+	 * @throws RangeError if a directory is moved into itself or one of its descendants
 	 */
-	async move(dir: DirID){
-		const parentDir = await this.vault.getDir(dir);
-		const fileName = await this.vault.encryptFileName(this.decryptedName, dir);
-		if(fileName.length > this.vault.vaultSettings.shorteningThreshold){
-			const shortened = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(fileName));
-			const shortDir = base64url.encode(new Uint8Array(shortened));
-			const fileDir = `${parentDir}/${shortDir}.c9s` as ItemPath;
-			await this.vault.provider.move(this.fullName, fileDir);
-			await this.vault.provider.writeFile(`${fileDir}/name.c9s`, fileName);
-		} else {
-			const fileDir = `${parentDir}/${fileName}.c9r` as ItemPath;
-			await this.vault.provider.move(this.fullName, fileDir);
-		}
+	async move(dir: DirID, conflict: ConflictPolicy = 'fail', newName?: string){
+		if(this.parentId === null) throw new Error('Cannot move the root folder.');
+		await this.relocate(dir, newName ?? this.decryptedName, conflict);
 	}
 
 	/**
 	 * Rename this item.
 	 * @param to: Name this item should be changed to
+	 * @param conflict What to do if an item with the name already exists. Defaults to fail.
+	 * @throws ConflictError if an item with the name already exists, and cannot be overwritten
 	 */
-	async rename(to: string){
+	async rename(to: string, conflict: ConflictPolicy = 'fail'){
 		if(this.parentId === null) throw new Error('Cannot rename the root folder.');
-		const encryptedName = await this.vault.encryptFileName(to, this.parentId);
-		const short = encryptedName.length >= this.vault.vaultSettings.shorteningThreshold;
-		const parentDir = await this.vault.getDir(this.parentId);
-		if(short){ // If new name needs to be shortened
-			const shortened = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(encryptedName));
-			const shortDir = base64url.encode(new Uint8Array(shortened));
-			const fullDir = `${parentDir}/${shortDir}.c9s` as ItemPath;
-			if(this.shortened){
-				const fileNameFile = `${this.fullName}/name.c9s`;
-				await this.vault.provider.writeFile(fileNameFile, encryptedName);
-				await this.vault.provider.rename(this.fullName, fullDir);
-				this.fullName = fullDir;
+		await this.relocate(this.parentId, to, conflict);
+	}
+
+	/**
+	 * Store this item under a new name or directory, and update this object to match.
+	 * Names may become shortened or unshortened on the way, which changes how the item is stored:
+	 * - Directories, symlinks and files with shortened names are folders, and name.c9s is written into or removed from them after they are moved
+	 * - Files with unshortened names are the content itself, which is moved into or out of a .c9s folder
+	 *
+	 * If any step fails, the steps already done are undone as far as possible before the error is thrown.
+	 * @param parentId ID of the directory the item will be in
+	 * @param name Name the item will have
+	 * @param conflict What to do if an item with the name already exists. An overwritten item is set aside, and deleted once this item has taken its place.
+	 */
+	private async relocate(parentId: DirID, name: string, conflict: ConflictPolicy){
+		const oldParentId = this.parentId as DirID;
+		if(this.type === 'd' && parentId !== oldParentId && await (this as EncryptedItemBase as EncryptedDir).contains(parentId)){
+			throw new RangeError('A directory cannot be moved into itself.');
+		}
+		const resolved = await checkConflict(this.vault, name, parentId, this.type, conflict, this);
+		if(resolved.existing && conflict === 'skip') return;
+		const aside = resolved.existing ? await setAside(resolved.existing) : null;
+		name = resolved.name;
+		const {encName, path, shortened} = await this.vault.getItemPath(name, parentId);
+		const provider = this.vault.provider;
+		const from = this.fullName;
+		const wasFolder = this.type !== 'f' || this.shortened;
+		const isFolder = this.type !== 'f' || shortened;
+		try{
+			if(path === from){
+				// Nothing to move, only the name may need to be stored again
+				if(shortened) await provider.writeFile(`${path}/name.c9s`, encName);
+			} else if(wasFolder && isFolder){
+				await provider.move(from, path);
+				try{
+					if(shortened) await provider.writeFile(`${path}/name.c9s`, encName);
+					else if(this.shortened) await provider.removeFile(`${path}/name.c9s`);
+				} catch(e) {
+					await provider.move(path, from).then(async () => {
+						if(this.shortened) await provider.writeFile(`${from}/name.c9s`, this.name);
+					}).catch(() => undefined);
+					throw e;
+				}
+			} else if(isFolder){
+				// The file becomes a .c9s folder that holds its content
+				await provider.createDir(path);
+				try{
+					await provider.writeFile(`${path}/name.c9s`, encName);
+					await provider.move(from, `${path}/contents.c9r`);
+				} catch(e) {
+					await Promise.allSettled([
+						provider.removeDir(path)
+					]);
+					throw e;
+				}
+			} else if(wasFolder){
+				// The content is taken out of the .c9s folder, which is then removed along with name.c9s
+				await provider.move(`${from}/contents.c9r`, path);
+				try{
+					await provider.removeDir(from);
+				} catch(e) {
+					await Promise.allSettled([
+						provider.move(path, `${from}/contents.c9r`)
+					]);
+					throw e;
+				}
 			} else {
-				// TODO
-			}
-		} else {
-			if(this.shortened){
-				// TODO
-			} else { // If the old name was not shortened
-				const newName = `${parentDir}/${encryptedName}.c9r` as ItemPath;
-				await this.vault.provider.rename(this.fullName, newName);
-				this.fullName = newName;
+				await provider.move(from, path);
 			}
+		} catch(e) {
+			if(aside) await Promise.allSettled([aside.restore()]);
+			throw e;
+		} finally {
+			this.vault.cache.invalidate(oldParentId);
+			this.vault.cache.invalidate(parentId);
 		}
-		this.name = encryptedName;
-		this.decryptedName = to;
+		if(aside) await aside.commit();
+		this.name = encName;
+		this.fullName = path;
+		this.decryptedName = name;
+		this.parentId = parentId;
+		this.shortened = shortened;
+		// Keeps the link of the directory up to date, so that finding its ancestors does not have to list anything
+		if(this.type === 'd') await (this as EncryptedItemBase as EncryptedDir).getDirId();
 	}
 }
 
-export type EncryptedItem = EncryptedFile | EncryptedDir;
+export type EncryptedItem = EncryptedFile | EncryptedDir | EncryptedSymlink;
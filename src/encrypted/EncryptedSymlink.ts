@@ -0,0 +1,49 @@
+import type { DirID, ItemPath, Symlink } from "../types";
+import { Vault } from "../Vault";
+import { EncryptedFile } from "./EncryptedFile";
+import { EncryptedItemBase } from "./EncryptedItemBase";
+
+export class EncryptedSymlink extends EncryptedItemBase implements Symlink{
+	type: 's';
+	private target: null | string;
+
+	/**
+	 * Construct a symlink object
+	 * @param vault Vault object that can decrypt this symlink
+	 * @param name Encrypted symlink name
+	 * @param fullName *Encrypted* directory that corresponds to this object (The folder that contains symlink.c9r)
+	 * @param decryptedName Name of the symlink after decryption
+	 * @param parentId Directory ID of the parent folder
+	 * @param lastMod Last modification date
+	 * @param shortened If true, the name of this symlink is shortened
+	 * @param target If set, this target will be cached and used instead of reading symlink.c9r
+	 */
+	constructor(vault: Vault, name: string, fullName: ItemPath, decryptedName: string, parentId: DirID, lastMod: Date, shortened: boolean, target?: string){
+		super(vault, name, fullName, decryptedName, parentId, lastMod, shortened);
+		this.target = target ?? null;
+		this.type = 's';
+	}
+
+	/**
+	 * Get the path this symlink points to
+	 * @param clearCache Query the provider to get updated target.
+	 * @returns Decrypted target of this symlink
+	 * @throws InvalidSignatureError if the HMAC verification of symlink.c9r fails
+	 *
+	 * Calling this method will cache the target if it is not already.
+	 */
+	async getTarget(clearCache?: true){
+		if(clearCache || this.target === null){
+			const encrypted = await this.vault.provider.readFile(`${this.fullName}/symlink.c9r`);
+			this.target = new TextDecoder().decode(await EncryptedFile.decryptBuffer(this.vault, encrypted));
+		}
+		return this.target;
+	}
+
+	/**
+	 * Delete this symlink. The target of the symlink is not affected. This object will become invalid, and should never be used again.
+	 */
+	async deleteSymlink(){
+		await this.vault.deleteSymlink(this);
+	}
+}
@@ -1,8 +1,27 @@
 export * from './encrypted/EncryptedDir';
 export * from './encrypted/EncryptedFile';
 export * from './encrypted/EncryptedItemBase';
+export * from './encrypted/EncryptedSymlink';
 
+export * from './providers/IndexedDBProvider';
+export * from './providers/InMemoryProvider';
+export * from './providers/OPFSProvider';
+export * from './providers/S3Provider';
+export * from './providers/WebDavProvider';
+
+export * from './Cache';
+export * from './Cipher';
+export * from './Conflicts';
+export * from './Copy';
 export * from './DataProvider';
 export * from './Errors';
+export * from './HealthCheck';
+export * from './Middleware';
+export * from './Paths';
+export * from './RecoveryKey';
+export * from './Scheduler';
+export * from './Stream';
+export * from './SyncConflicts';
+export * from './Transfer';
 export * from './Vault';
 export * from './types';
\ No newline at end of file
@@ -0,0 +1,296 @@
+import { Base64 } from "js-base64";
+import { DataProvider, ProgressCallback } from "../DataProvider";
+import { ExistsError, ItemTypeError, NotFoundError } from "../Errors";
+import { Item, ItemPath } from "../types";
+
+type MemoryFile = {
+	type: 'f';
+	content: Uint8Array;
+	lastMod: Date;
+}
+
+type MemoryDir = {
+	type: 'd';
+	children: Map<string, MemoryNode>;
+	lastMod: Date;
+}
+
+type MemoryNode = MemoryFile | MemoryDir;
+
+/**
+ * Copy of the whole tree of an InMemoryProvider, taken with snapshot
+ */
+export type MemorySnapshot = {
+	root: MemoryDir;
+}
+
+/**
+ * Tree of an InMemoryProvider in a form that can be converted into JSON. File contents are encoded in Base64.
+ */
+export type MemoryTreeJSON = {
+	type: 'f';
+	content: string;
+	lastMod: string;
+} | {
+	type: 'd';
+	children: {[name: string]: MemoryTreeJSON};
+	lastMod: string;
+}
+
+const STREAM_CHUNK_SIZE = 65536;
+
+/**
+ * Data provider that keeps everything in memory. Useful in browsers and sandboxes without a file system, and for tests.
+ * Paths are separated by /, and are all resolved from the same root regardless of whether they start with /.
+ */
+export class InMemoryProvider implements DataProvider{
+	private root: MemoryDir = {type: 'd', children: new Map(), lastMod: new Date()};
+
+	async rename(path: string, newPath: string): Promise<void>{
+		const {parent, name, node} = this.getEntry(path);
+		const target = splitPath(newPath);
+		const newName = target.pop();
+		if(newName === undefined) throw new ExistsError(newPath);
+		const source = splitPath(path);
+		if(node.type === 'd' && target.length >= source.length && source.every((s, i) => s === target[i])){
+			throw new RangeError(`Cannot move ${path} into itself.`);
+		}
+		const newParent = this.getDir(target, newPath);
+		const existing = newParent.children.get(newName);
+		if(existing === node) return;
+		// Same as rename(2): files replace files, and directories replace empty directories
+		if(existing && (existing.type !== node.type || existing.type === 'd' && existing.children.size)) throw new ExistsError(newPath);
+		parent.children.delete(name);
+		newParent.children.set(newName, node);
+		const now = new Date();
+		parent.lastMod = now;
+		newParent.lastMod = now;
+	}
+
+	async move(path: string, newPath: string): Promise<void>{
+		await this.rename(path, newPath);
+	}
+
+	async exists(path: string){
+		return this.find(splitPath(path)) !== null;
+	}
+
+	async removeFile(path: string): Promise<void>{
+		const {parent, name, node} = this.getEntry(path);
+		if(node.type !== 'f') throw new ItemTypeError(path, 'f');
+		parent.children.delete(name);
+		parent.lastMod = new Date();
+	}
+
+	async removeDir(path: string): Promise<void>{
+		const {parent, name} = this.getEntry(path);
+		parent.children.delete(name);
+		parent.lastMod = new Date();
+	}
+
+	async createDir(path: string, recursive?: boolean): Promise<void>{
+		const segments = splitPath(path);
+		let dir = this.root;
+		for(let i = 0; i < segments.length; i++){
+			const last = i === segments.length - 1;
+			const child = dir.children.get(segments[i]);
+			if(child){
+				if(child.type !== 'd') throw new ExistsError(path);
+				if(last && !recursive) throw new ExistsError(path);
+				dir = child;
+			} else if(last || recursive){
+				const created: MemoryDir = {type: 'd', children: new Map(), lastMod: new Date()};
+				dir.children.set(segments[i], created);
+				dir.lastMod = created.lastMod;
+				dir = created;
+			} else throw new NotFoundError(path);
+		}
+	}
+
+	async readFile(path: string, progress?: ProgressCallback): Promise<Uint8Array>{
+		const content = this.getFile(path).content;
+		if(progress) progress(content.byteLength, content.byteLength);
+		return content.slice();
+	}
+
+	async readFileString(path: string, progress?: ProgressCallback): Promise<string>{
+		return new TextDecoder().decode(await this.readFile(path, progress));
+	}
+
+	async listItems(path: string): Promise<Item[]>{
+		const dir = this.getDir(splitPath(path), path);
+		const prefix = path.replace(/\/+$/, '');
+		const items: Item[] = [];
+		for(const [name, node] of dir.children){
+			items.push({
+				type: node.type,
+				name: name,
+				fullName: `${prefix}/${name}` as ItemPath,
+				lastMod: node.lastMod,
+				size: node.type === 'f' ? node.content.byteLength : undefined
+			});
+		}
+		return items;
+	}
+
+	async writeFile(path: string, content: Uint8Array | string, progress?: ProgressCallback): Promise<void>{
+		const data = typeof(content) === 'string' ? new TextEncoder().encode(content) : content.slice();
+		const segments = splitPath(path);
+		const name = segments.pop();
+		if(name === undefined) throw new ItemTypeError(path, 'f');
+		const parent = this.getDir(segments, path);
+		if(parent.children.get(name)?.type === 'd') throw new ItemTypeError(path, 'f');
+		const now = new Date();
+		parent.children.set(name, {type: 'f', content: data, lastMod: now});
+		parent.lastMod = now;
+		if(progress) progress(data.byteLength, data.byteLength);
+	}
+
+	async *readFileStream(path: string, progress?: ProgressCallback): AsyncGenerator<Uint8Array>{
+		const content = this.getFile(path).content;
+		for(let i = 0; i < content.byteLength; i += STREAM_CHUNK_SIZE){
+			const chunk = content.slice(i, i + STREAM_CHUNK_SIZE);
+			if(progress) progress(i + chunk.byteLength, content.byteLength);
+			yield chunk;
+		}
+	}
+
+	async readFileRange(path: string, start: number, length: number): Promise<Uint8Array>{
+		return this.getFile(path).content.slice(start, start + length);
+	}
+
+	async writeFileStream(path: string, content: AsyncIterable<Uint8Array>, progress?: ProgressCallback){
+		const chunks: Uint8Array[] = [];
+		let length = 0;
+		for await (const chunk of content){
+			chunks.push(chunk.slice());
+			length += chunk.byteLength;
+			if(progress) progress(length, -1);
+		}
+		const data = new Uint8Array(length);
+		let offset = 0;
+		for(const c of chunks){
+			data.set(c, offset);
+			offset += c.byteLength;
+		}
+		await this.writeFile(path, data);
+	}
+
+	async stat(path: string): Promise<Item | null>{
+		const segments = splitPath(path);
+		const node = this.find(segments);
+		if(!node) return null;
+		return {
+			type: node.type,
+			name: segments[segments.length - 1] ?? '',
+			fullName: path as ItemPath,
+			lastMod: node.lastMod,
+			size: node.type === 'f' ? node.content.byteLength : undefined
+		};
+	}
+
+	async setLastMod(path: string, lastMod: Date){
+		const node = this.find(splitPath(path));
+		if(!node) throw new NotFoundError(path);
+		node.lastMod = new Date(lastMod);
+	}
+
+	/**
+	 * Take a copy of everything stored in this provider
+	 * @returns Snapshot that can be passed to restore
+	 */
+	snapshot(): MemorySnapshot{
+		return {root: cloneNode(this.root) as MemoryDir};
+	}
+
+	/**
+	 * Replace everything stored in this provider with a snapshot. The snapshot can be restored again later.
+	 * @param snapshot Snapshot taken with snapshot
+	 */
+	restore(snapshot: MemorySnapshot){
+		this.root = cloneNode(snapshot.root) as MemoryDir;
+	}
+
+	/**
+	 * Export the whole tree
+	 * @returns JSON string that can be passed to importJSON
+	 */
+	exportJSON(){
+		return JSON.stringify(toJSONNode(this.root));
+	}
+
+	/**
+	 * Replace everything stored in this provider with an exported tree
+	 * @param json JSON string returned by exportJSON
+	 * @throws TypeError if the root of the tree is not a directory
+	 */
+	importJSON(json: string){
+		const root = fromJSONNode(JSON.parse(json) as MemoryTreeJSON);
+		if(root.type !== 'd') throw new TypeError('Root of the tree must be a directory.');
+		this.root = root;
+	}
+
+	private find(segments: string[]): MemoryNode | null{
+		let node: MemoryNode = this.root;
+		for(const segment of segments){
+			if(node.type !== 'd') return null;
+			const child = node.children.get(segment);
+			if(!child) return null;
+			node = child;
+		}
+		return node;
+	}
+
+	private getDir(segments: string[], path: string){
+		const node = this.find(segments);
+		if(!node) throw new NotFoundError(path);
+		if(node.type !== 'd') throw new ItemTypeError(path, 'd');
+		return node;
+	}
+
+	private getFile(path: string){
+		const node = this.find(splitPath(path));
+		if(!node) throw new NotFoundError(path);
+		if(node.type !== 'f') throw new ItemTypeError(path, 'f');
+		return node;
+	}
+
+	/**
+	 * Find an item along with the directory it is in
+	 * @throws NotFoundError if the item does not exist, or if the path points to the root
+	 */
+	private getEntry(path: string){
+		const segments = splitPath(path);
+		const name = segments.pop();
+		if(name === undefined) throw new NotFoundError(path);
+		const parent = this.getDir(segments, path);
+		const node = parent.children.get(name);
+		if(!node) throw new NotFoundError(path);
+		return {parent, name, node};
+	}
+}
+
+function splitPath(path: string){
+	return path.split('/').filter(s => s !== '' && s !== '.');
+}
+
+function cloneNode(node: MemoryNode): MemoryNode{
+	if(node.type === 'f') return {type: 'f', content: node.content.slice(), lastMod: new Date(node.lastMod)};
+	const children = new Map<string, MemoryNode>();
+	for(const [name, child] of node.children) children.set(name, cloneNode(child));
+	return {type: 'd', children: children, lastMod: new Date(node.lastMod)};
+}
+
+function toJSONNode(node: MemoryNode): MemoryTreeJSON{
+	if(node.type === 'f') return {type: 'f', content: Base64.fromUint8Array(node.content), lastMod: node.lastMod.toISOString()};
+	const children: {[name: string]: MemoryTreeJSON} = {};
+	for(const [name, child] of node.children) children[name] = toJSONNode(child);
+	return {type: 'd', children: children, lastMod: node.lastMod.toISOString()};
+}
+
+function fromJSONNode(node: MemoryTreeJSON): MemoryNode{
+	if(node.type === 'f') return {type: 'f', content: Base64.toUint8Array(node.content), lastMod: new Date(node.lastMod)};
+	const children = new Map<string, MemoryNode>();
+	for(const name in node.children) children.set(name, fromJSONNode(node.children[name]));
+	return {type: 'd', children: children, lastMod: new Date(node.lastMod)};
+}
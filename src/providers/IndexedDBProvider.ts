@@ -0,0 +1,290 @@
+import { DataProvider, ProgressCallback } from "../DataProvider";
+import { ExistsError, ItemTypeError, NotFoundError } from "../Errors";
+import { Item, ItemPath } from "../types";
+
+/**
+ * Record of an item, keyed by its normalized path such as /a/b
+ */
+type IDBItem = {
+	path: string;
+	parent: string;
+	name: string;
+	type: 'f' | 'd';
+	content?: Uint8Array;
+	lastMod: number;
+}
+
+const STORE_NAME = 'items';
+const PARENT_INDEX = 'parent';
+
+/**
+ * Data provider that stores everything in an IndexedDB database, so that a web app can keep a vault offline.
+ * Every item is a record in a single object store, and the root directory always exists.
+ * Paths are separated by /, and are all resolved from the same root regardless of whether they start with /.
+ */
+export class IndexedDBProvider implements DataProvider{
+	constructor(private db: IDBDatabase){}
+
+	/**
+	 * Open a database, creating it if it does not exist
+	 * @param name Name of the database
+	 */
+	static async open(name = 'cryptomator'){
+		const request = indexedDB.open(name, 1);
+		request.onupgradeneeded = () => {
+			const store = request.result.createObjectStore(STORE_NAME, {keyPath: 'path'});
+			store.createIndex(PARENT_INDEX, 'parent');
+		};
+		return new IndexedDBProvider(await promisify(request));
+	}
+
+	/**
+	 * Close the database. The provider cannot be used afterwards.
+	 */
+	close(){
+		this.db.close();
+	}
+
+	async rename(path: string, newPath: string): Promise<void>{
+		const from = normalize(path);
+		const to = normalize(newPath);
+		if(to === '/') throw new ExistsError(newPath);
+		await this.transaction('readwrite', async (store) => {
+			const item = await this.getItem(store, from, path);
+			if(from === to) return;
+			if(item.type === 'd' && to.startsWith(from + '/')) throw new RangeError(`Cannot move ${path} into itself.`);
+			await this.getDir(store, getParent(to), newPath);
+			const existing = await promisify<IDBItem | undefined>(store.get(to));
+			// Same as rename(2): files replace files, and directories replace empty directories
+			if(existing && (existing.type !== item.type || existing.type === 'd' && await promisify(store.index(PARENT_INDEX).count(to)))){
+				throw new ExistsError(newPath);
+			}
+			const descendants = item.type === 'd' ? await promisify<IDBItem[]>(store.getAll(getDescendantRange(from))) : [];
+			await promisify(store.delete(from));
+			await promisify(store.delete(getDescendantRange(from)));
+			const now = Date.now();
+			await promisify(store.put({...item, path: to, parent: getParent(to), name: getName(to), lastMod: now}));
+			for(const d of descendants){
+				const moved = to + d.path.substring(from.length);
+				await promisify(store.put({...d, path: moved, parent: getParent(moved)}));
+			}
+			await this.touch(store, getParent(from), now);
+			await this.touch(store, getParent(to), now);
+		});
+	}
+
+	async move(path: string, newPath: string): Promise<void>{
+		await this.rename(path, newPath);
+	}
+
+	async exists(path: string){
+		return await this.stat(path) !== null;
+	}
+
+	async removeFile(path: string): Promise<void>{
+		const key = normalize(path);
+		await this.transaction('readwrite', async (store) => {
+			const item = await this.getItem(store, key, path);
+			if(item.type !== 'f') throw new ItemTypeError(path, 'f');
+			await promisify(store.delete(key));
+			await this.touch(store, item.parent, Date.now());
+		});
+	}
+
+	async removeDir(path: string): Promise<void>{
+		const key = normalize(path);
+		await this.transaction('readwrite', async (store) => {
+			const item = await this.getItem(store, key, path);
+			await promisify(store.delete(key));
+			await promisify(store.delete(getDescendantRange(key)));
+			await this.touch(store, item.parent, Date.now());
+		});
+	}
+
+	async createDir(path: string, recursive?: boolean): Promise<void>{
+		const segments = splitPath(path);
+		await this.transaction('readwrite', async (store) => {
+			if(!segments.length){
+				if(recursive) return;
+				throw new ExistsError(path);
+			}
+			let parent = '/';
+			for(let i = 0; i < segments.length; i++){
+				const last = i === segments.length - 1;
+				const key = '/' + segments.slice(0, i + 1).join('/');
+				const item = await promisify<IDBItem | undefined>(store.get(key));
+				if(item){
+					if(item.type !== 'd' || last && !recursive) throw new ExistsError(path);
+				} else if(last || recursive){
+					const now = Date.now();
+					await promisify(store.put({path: key, parent: parent, name: segments[i], type: 'd', lastMod: now} as IDBItem));
+					await this.touch(store, parent, now);
+				} else throw new NotFoundError(path);
+				parent = key;
+			}
+		});
+	}
+
+	async readFile(path: string, progress?: ProgressCallback): Promise<Uint8Array>{
+		const content = await this.getFile(path);
+		if(progress) progress(content.byteLength, content.byteLength);
+		return content;
+	}
+
+	async readFileString(path: string, progress?: ProgressCallback): Promise<string>{
+		return new TextDecoder().decode(await this.readFile(path, progress));
+	}
+
+	async listItems(path: string): Promise<Item[]>{
+		const key = normalize(path);
+		const prefix = path.replace(/\/+$/, '');
+		const children = await this.transaction('readonly', async (store) => {
+			await this.getDir(store, key, path);
+			return await promisify<IDBItem[]>(store.index(PARENT_INDEX).getAll(key));
+		});
+		return children.map(c => ({
+			type: c.type,
+			name: c.name,
+			fullName: `${prefix}/${c.name}` as ItemPath,
+			lastMod: new Date(c.lastMod),
+			size: c.content?.byteLength
+		}));
+	}
+
+	async writeFile(path: string, content: Uint8Array | string, progress?: ProgressCallback): Promise<void>{
+		const data = typeof(content) === 'string' ? new TextEncoder().encode(content) : content.slice();
+		const key = normalize(path);
+		if(key === '/') throw new ItemTypeError(path, 'f');
+		await this.transaction('readwrite', async (store) => {
+			await this.getDir(store, getParent(key), path);
+			const existing = await promisify<IDBItem | undefined>(store.get(key));
+			if(existing?.type === 'd') throw new ItemTypeError(path, 'f');
+			const now = Date.now();
+			await promisify(store.put({path: key, parent: getParent(key), name: getName(key), type: 'f', content: data, lastMod: now} as IDBItem));
+			await this.touch(store, getParent(key), now);
+		});
+		if(progress) progress(data.byteLength, data.byteLength);
+	}
+
+	async readFileRange(path: string, start: number, length: number): Promise<Uint8Array>{
+		return (await this.getFile(path)).slice(start, start + length);
+	}
+
+	async stat(path: string): Promise<Item | null>{
+		const key = normalize(path);
+		if(key === '/') return {type: 'd', name: '', fullName: path as ItemPath, lastMod: new Date(0)};
+		const item = await this.transaction('readonly', async (store) => await promisify<IDBItem | undefined>(store.get(key)));
+		if(!item) return null;
+		return {
+			type: item.type,
+			name: item.name,
+			fullName: path as ItemPath,
+			lastMod: new Date(item.lastMod),
+			size: item.content?.byteLength
+		};
+	}
+
+	async setLastMod(path: string, lastMod: Date){
+		const key = normalize(path);
+		// The root is not stored, and is always reported as modified at 0
+		if(key === '/') return;
+		await this.transaction('readwrite', async (store) => {
+			const item = await this.getItem(store, key, path);
+			await promisify(store.put({...item, lastMod: lastMod.getTime()}));
+		});
+	}
+
+	/**
+	 * Run operations in a transaction. If anything throws, the transaction is aborted and nothing is changed.
+	 * Only requests to the store may be awaited in fn, as the transaction commits once nothing is requested.
+	 */
+	private async transaction<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T>){
+		const tx = this.db.transaction(STORE_NAME, mode);
+		const done = new Promise<void>((resolve, reject) => {
+			tx.oncomplete = () => resolve();
+			tx.onerror = () => reject(tx.error);
+			tx.onabort = () => reject(tx.error);
+		});
+		let result: T;
+		try{
+			result = await fn(tx.objectStore(STORE_NAME));
+		} catch(e) {
+			done.catch(() => undefined);
+			try{
+				tx.abort();
+			} catch(e) {
+				// Already finished
+			}
+			throw e;
+		}
+		await done;
+		return result;
+	}
+
+	private async getFile(path: string){
+		const key = normalize(path);
+		const item = await this.transaction('readonly', async (store) => await this.getItem(store, key, path));
+		if(item.type !== 'f') throw new ItemTypeError(path, 'f');
+		return item.content as Uint8Array;
+	}
+
+	/**
+	 * @throws NotFoundError if nothing exists at the path, or if the path points to the root
+	 */
+	private async getItem(store: IDBObjectStore, key: string, path: string){
+		const item = await promisify<IDBItem | undefined>(store.get(key));
+		if(!item) throw new NotFoundError(path);
+		return item;
+	}
+
+	/**
+	 * @throws NotFoundError if the directory does not exist
+	 * @throws ItemTypeError if the item is not a directory
+	 */
+	private async getDir(store: IDBObjectStore, key: string, path: string){
+		if(key === '/') return;
+		const item = await promisify<IDBItem | undefined>(store.get(key));
+		if(!item) throw new NotFoundError(path);
+		if(item.type !== 'd') throw new ItemTypeError(path, 'd');
+	}
+
+	/**
+	 * Update the modification time of a directory
+	 */
+	private async touch(store: IDBObjectStore, key: string, time: number){
+		if(key === '/') return;
+		const item = await promisify<IDBItem | undefined>(store.get(key));
+		if(item) await promisify(store.put({...item, lastMod: time}));
+	}
+}
+
+function promisify<T>(request: IDBRequest<T>){
+	return new Promise<T>((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function splitPath(path: string){
+	return path.split('/').filter(s => s !== '' && s !== '.');
+}
+
+function normalize(path: string){
+	return '/' + splitPath(path).join('/');
+}
+
+function getParent(key: string){
+	return key.substring(0, key.lastIndexOf('/')) || '/';
+}
+
+function getName(key: string){
+	return key.substring(key.lastIndexOf('/') + 1);
+}
+
+/**
+ * Range of every key under a directory. 0 comes right after / in code unit order.
+ */
+function getDescendantRange(key: string){
+	const prefix = key === '/' ? '/' : key + '/';
+	return IDBKeyRange.bound(prefix, prefix.slice(0, -1) + '0', false, true);
+}
@@ -1,6 +1,6 @@
-import { DataProvider } from "../DataProvider";
+import { DataProvider, ProgressCallback } from "../DataProvider";
 import { Item, ItemPath } from "../types";
-import { promises as fs, existsSync} from "fs";
+import { promises as fs, existsSync, createReadStream } from "fs";
 import * as p from "path";
 
 export class LocalStorageProvider implements DataProvider{
@@ -38,12 +38,29 @@ export class LocalStorageProvider implements DataProvider{
 				type: stat.isDirectory() ? 'd' : 'f',
 				name: name,
 				fullName: fullName as ItemPath,
-				lastMod: stat.mtime
+				lastMod: stat.mtime,
+				size: stat.isDirectory() ? undefined : stat.size
 			});
 		}
 		return items;
 	}
 
+	async stat (path: string): Promise<Item | null>{
+		if(!existsSync(path)) return null;
+		const stat = await fs.stat(path);
+		return {
+			type: stat.isDirectory() ? 'd' : 'f',
+			name: p.basename(path),
+			fullName: path as ItemPath,
+			lastMod: stat.mtime,
+			size: stat.isDirectory() ? undefined : stat.size
+		};
+	}
+
+	async setLastMod(path: string, lastMod: Date){
+		await fs.utimes(path, lastMod, lastMod);
+	}
+
 	async writeFile(path: string, data: Uint8Array | string){
 		await fs.writeFile(path, data);
 	}
@@ -51,4 +68,46 @@ export class LocalStorageProvider implements DataProvider{
 	async move (path: string, newPath: string){
 		await fs.rename(path, newPath);
 	}
+
+	async *readFileStream(path: string, progress?: ProgressCallback): AsyncGenerator<Uint8Array>{
+		const total = (await fs.stat(path)).size;
+		let current = 0;
+		for await (const chunk of createReadStream(path)){
+			const buf = chunk as Buffer;
+			current += buf.byteLength;
+			if(progress) progress(current, total);
+			yield new Uint8Array(buf.buffer, buf.byteOffset, buf.byteLength);
+		}
+	}
+
+	async readFileRange(path: string, start: number, length: number): Promise<Uint8Array>{
+		const handle = await fs.open(path, 'r');
+		try{
+			length = Math.min(length, Math.max(0, (await handle.stat()).size - start));
+			const buffer = new Uint8Array(length);
+			let read = 0;
+			while(read < length){
+				const {bytesRead} = await handle.read(buffer, read, length - read, start + read);
+				if(!bytesRead) break;
+				read += bytesRead;
+			}
+			return buffer.subarray(0, read);
+		} finally {
+			await handle.close();
+		}
+	}
+
+	async writeFileStream(path: string, content: AsyncIterable<Uint8Array>, progress?: ProgressCallback){
+		const handle = await fs.open(path, 'w');
+		try{
+			let current = 0;
+			for await (const chunk of content){
+				await handle.write(chunk);
+				current += chunk.byteLength;
+				if(progress) progress(current, -1);
+			}
+		} finally {
+			await handle.close();
+		}
+	}
 }
\ No newline at end of file
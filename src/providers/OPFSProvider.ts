@@ -0,0 +1,282 @@
+import { DataProvider, ProgressCallback } from "../DataProvider";
+import { ExistsError, ItemTypeError, NotFoundError } from "../Errors";
+import { Item, ItemPath } from "../types";
+
+/*
+ * Parts of the File System Access API used by OPFSProvider.
+ * They are declared here, as not every version of the DOM typings includes writable streams and iteration of directories.
+ */
+
+export type OPFSWritable = {
+	write(data: Uint8Array): Promise<void>;
+	close(): Promise<void>;
+	abort?(): Promise<void>;
+}
+
+export type OPFSFileHandle = {
+	readonly kind: 'file';
+	readonly name: string;
+	getFile(): Promise<Blob & {lastModified: number}>;
+	createWritable(): Promise<OPFSWritable>;
+}
+
+export type OPFSDirectoryHandle = {
+	readonly kind: 'directory';
+	readonly name: string;
+	getDirectoryHandle(name: string, options?: {create?: boolean}): Promise<OPFSDirectoryHandle>;
+	getFileHandle(name: string, options?: {create?: boolean}): Promise<OPFSFileHandle>;
+	removeEntry(name: string, options?: {recursive?: boolean}): Promise<void>;
+	values(): AsyncIterable<OPFSFileHandle | OPFSDirectoryHandle>;
+}
+
+/**
+ * Data provider that stores everything in the Origin Private File System of a browser, or any directory handle of the File System Access API.
+ * Directories have no modification time, and are reported with the Unix epoch.
+ * Handles cannot be moved everywhere yet, so rename copies and deletes, and is not atomic.
+ * Paths are separated by /, and are all resolved from the root handle regardless of whether they start with /.
+ */
+export class OPFSProvider implements DataProvider{
+	constructor(private root: OPFSDirectoryHandle){}
+
+	/**
+	 * Create a provider for the Origin Private File System of the current page
+	 * @param path Directory within the file system to use as the root, which is created if it does not exist
+	 */
+	static async open(path = '/'){
+		const storage = (globalThis as unknown as {navigator: {storage: {getDirectory(): Promise<OPFSDirectoryHandle>}}}).navigator.storage;
+		const provider = new OPFSProvider(await storage.getDirectory());
+		if(!splitPath(path).length) return provider;
+		await provider.createDir(path, true);
+		return new OPFSProvider(await provider.getDir(splitPath(path), path));
+	}
+
+	/**
+	 * Rename an item. Same as rename(2), files replace files, and directories replace empty directories.
+	 * @throws NotFoundError if nothing exists at the path
+	 * @throws ExistsError if something else is in the way
+	 * @throws RangeError if a directory is moved into itself
+	 */
+	async rename(path: string, newPath: string): Promise<void>{
+		const {parent, name, handle} = await this.getEntry(path);
+		const source = splitPath(path);
+		const target = splitPath(newPath);
+		const newName = target.pop();
+		if(newName === undefined) throw new ExistsError(newPath);
+		if(source.join('/') === [...target, newName].join('/')) return;
+		if(handle.kind === 'directory' && target.length >= source.length && source.every((s, i) => s === target[i])){
+			throw new RangeError(`Cannot move ${path} into itself.`);
+		}
+		const newParent = await this.getDir(target, newPath);
+		const existing = await getChild(newParent, newName);
+		if(existing && (existing.kind !== handle.kind || existing.kind === 'directory' && !await isEmpty(existing))) throw new ExistsError(newPath);
+		await copy(handle, newParent, newName);
+		await parent.removeEntry(name, {recursive: true});
+	}
+
+	async move(path: string, newPath: string): Promise<void>{
+		await this.rename(path, newPath);
+	}
+
+	async exists(path: string){
+		return await this.stat(path) !== null;
+	}
+
+	async removeFile(path: string): Promise<void>{
+		const {parent, name, handle} = await this.getEntry(path);
+		if(handle.kind !== 'file') throw new ItemTypeError(path, 'f');
+		await parent.removeEntry(name);
+	}
+
+	async removeDir(path: string): Promise<void>{
+		const {parent, name} = await this.getEntry(path);
+		await parent.removeEntry(name, {recursive: true});
+	}
+
+	async createDir(path: string, recursive?: boolean): Promise<void>{
+		const segments = splitPath(path);
+		let dir = this.root;
+		if(!segments.length && !recursive) throw new ExistsError(path);
+		for(let i = 0; i < segments.length; i++){
+			const last = i === segments.length - 1;
+			const child = await getChild(dir, segments[i]);
+			if(child){
+				if(child.kind !== 'directory' || last && !recursive) throw new ExistsError(path);
+				dir = child;
+			} else if(last || recursive){
+				dir = await dir.getDirectoryHandle(segments[i], {create: true});
+			} else throw new NotFoundError(path);
+		}
+	}
+
+	async readFile(path: string, progress?: ProgressCallback): Promise<Uint8Array>{
+		const file = await (await this.getFile(path)).getFile();
+		const data = new Uint8Array(await file.arrayBuffer());
+		if(progress) progress(data.byteLength, data.byteLength);
+		return data;
+	}
+
+	async readFileString(path: string, progress?: ProgressCallback): Promise<string>{
+		return new TextDecoder().decode(await this.readFile(path, progress));
+	}
+
+	async listItems(path: string): Promise<Item[]>{
+		const dir = await this.getDir(splitPath(path), path);
+		const prefix = path.replace(/\/+$/, '');
+		const items: Item[] = [];
+		for await (const handle of dir.values()){
+			const file = handle.kind === 'file' ? await handle.getFile() : null;
+			items.push({
+				type: handle.kind === 'file' ? 'f' : 'd',
+				name: handle.name,
+				fullName: `${prefix}/${handle.name}` as ItemPath,
+				lastMod: new Date(file?.lastModified ?? 0),
+				size: file?.size
+			});
+		}
+		return items;
+	}
+
+	async writeFile(path: string, content: Uint8Array | string, progress?: ProgressCallback): Promise<void>{
+		const data = typeof(content) === 'string' ? new TextEncoder().encode(content) : content;
+		const segments = splitPath(path);
+		const name = segments.pop();
+		if(name === undefined) throw new ItemTypeError(path, 'f');
+		const parent = await this.getDir(segments, path);
+		if((await getChild(parent, name))?.kind === 'directory') throw new ItemTypeError(path, 'f');
+		const writable = await (await parent.getFileHandle(name, {create: true})).createWritable();
+		try{
+			await writable.write(data);
+		} catch(e) {
+			if(writable.abort) await writable.abort();
+			throw e;
+		}
+		await writable.close();
+		if(progress) progress(data.byteLength, data.byteLength);
+	}
+
+	async *readFileStream(path: string, progress?: ProgressCallback): AsyncGenerator<Uint8Array>{
+		const file = await (await this.getFile(path)).getFile();
+		const reader = (file.stream() as ReadableStream<Uint8Array>).getReader();
+		let current = 0;
+		try{
+			while(true){
+				const {done, value} = await reader.read();
+				if(done) return;
+				current += value.byteLength;
+				if(progress) progress(current, file.size);
+				yield value;
+			}
+		} finally {
+			await reader.cancel();
+		}
+	}
+
+	async readFileRange(path: string, start: number, length: number): Promise<Uint8Array>{
+		const file = await (await this.getFile(path)).getFile();
+		return new Uint8Array(await file.slice(start, start + length).arrayBuffer());
+	}
+
+	async stat(path: string): Promise<Item | null>{
+		const segments = splitPath(path);
+		const name = segments.pop();
+		const base = {name: name ?? '', fullName: path as ItemPath};
+		if(name === undefined) return {...base, type: 'd', lastMod: new Date(0)};
+		let handle: OPFSFileHandle | OPFSDirectoryHandle | null;
+		try{
+			handle = await getChild(await this.getDir(segments, path), name);
+		} catch(e) {
+			if(e instanceof NotFoundError || e instanceof ItemTypeError) return null;
+			throw e;
+		}
+		if(!handle) return null;
+		if(handle.kind === 'directory') return {...base, type: 'd', lastMod: new Date(0)};
+		const file = await handle.getFile();
+		return {...base, type: 'f', lastMod: new Date(file.lastModified), size: file.size};
+	}
+
+	/**
+	 * @throws NotFoundError if any of the directories does not exist
+	 * @throws ItemTypeError if any of them is not a directory
+	 */
+	private async getDir(segments: string[], path: string){
+		let dir = this.root;
+		for(const segment of segments){
+			const child = await getChild(dir, segment);
+			if(!child) throw new NotFoundError(path);
+			if(child.kind !== 'directory') throw new ItemTypeError(path, 'd');
+			dir = child;
+		}
+		return dir;
+	}
+
+	private async getFile(path: string){
+		const segments = splitPath(path);
+		const name = segments.pop();
+		if(name === undefined) throw new ItemTypeError(path, 'f');
+		const handle = await getChild(await this.getDir(segments, path), name);
+		if(!handle) throw new NotFoundError(path);
+		if(handle.kind !== 'file') throw new ItemTypeError(path, 'f');
+		return handle;
+	}
+
+	/**
+	 * Find an item along with the directory it is in
+	 * @throws NotFoundError if the item does not exist, or if the path points to the root
+	 */
+	private async getEntry(path: string){
+		const segments = splitPath(path);
+		const name = segments.pop();
+		if(name === undefined) throw new NotFoundError(path);
+		const parent = await this.getDir(segments, path);
+		const handle = await getChild(parent, name);
+		if(!handle) throw new NotFoundError(path);
+		return {parent, name, handle};
+	}
+}
+
+function splitPath(path: string){
+	return path.split('/').filter(s => s !== '' && s !== '.');
+}
+
+/**
+ * Get a file or directory in a directory
+ * @returns The handle, or null if nothing with the name exists
+ */
+async function getChild(dir: OPFSDirectoryHandle, name: string): Promise<OPFSFileHandle | OPFSDirectoryHandle | null>{
+	try{
+		return await dir.getFileHandle(name);
+	} catch(e) {
+		if(!isDOMException(e, 'TypeMismatchError')){
+			if(isDOMException(e, 'NotFoundError')) return null;
+			throw e;
+		}
+	}
+	return await dir.getDirectoryHandle(name);
+}
+
+function isDOMException(e: unknown, name: string){
+	return typeof(e) === 'object' && e !== null && (e as {name?: unknown}).name === name;
+}
+
+async function isEmpty(dir: OPFSDirectoryHandle){
+	const {done} = await dir.values()[Symbol.asyncIterator]().next();
+	return done === true;
+}
+
+/**
+ * Copy a file or a directory with everything in it
+ * @param handle Item to copy
+ * @param parent Directory to copy into
+ * @param name Name of the copy
+ */
+async function copy(handle: OPFSFileHandle | OPFSDirectoryHandle, parent: OPFSDirectoryHandle, name: string){
+	if(handle.kind === 'file'){
+		const data = new Uint8Array(await (await handle.getFile()).arrayBuffer());
+		const writable = await (await parent.getFileHandle(name, {create: true})).createWritable();
+		await writable.write(data);
+		await writable.close();
+		return;
+	}
+	const dir = await parent.getDirectoryHandle(name, {create: true});
+	for await (const child of handle.values()) await copy(child, dir, child.name);
+}
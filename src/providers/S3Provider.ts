@@ -0,0 +1,420 @@
+import { DataProvider, ProgressCallback } from "../DataProvider";
+import { ExistsError, HttpError, NotFoundError } from "../Errors";
+import { Item, ItemPath } from "../types";
+import { findElements, findText, readBody, streamBody } from "./http";
+
+export type S3Opts = {
+	/**
+	 * URL of the S3 service, such as https://s3.eu-central-1.amazonaws.com or http://localhost:9000
+	 */
+	endpoint: string;
+	/**
+	 * Region used for signing. Defaults to us-east-1.
+	 */
+	region?: string;
+	bucket: string;
+	accessKeyId: string;
+	secretAccessKey: string;
+	/**
+	 * Session token of temporary credentials
+	 */
+	sessionToken?: string;
+	/**
+	 * Key prefix every path is stored under, such as "vaults". Defaults to the root of the bucket.
+	 */
+	prefix?: string;
+	/**
+	 * If true (default), the bucket is put in the path of URLs (endpoint/bucket/key). Otherwise, it is put in the host name (bucket.endpoint/key).
+	 */
+	pathStyle?: boolean;
+	/**
+	 * Max number of keys to request per page when listing. Defaults to 1000, which is also the max of S3.
+	 */
+	pageSize?: number;
+	/**
+	 * Fetch function to use instead of the global one
+	 */
+	fetch?: typeof fetch;
+}
+
+type S3Object = {
+	key: string;
+	lastMod: Date;
+	size: number;
+}
+
+type S3Request = {
+	query?: {[name: string]: string};
+	headers?: {[name: string]: string};
+	body?: Uint8Array;
+}
+
+const EMPTY_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+/**
+ * Data provider for S3 compatible object storage.
+ * Object storage has no directories, so they are emulated with key prefixes:
+ * a directory exists while any key starts with its path, and createDir stores an empty marker object ending with / to keep empty directories.
+ * Renaming and deleting directories copies or deletes every object in them one at a time, so they are not atomic.
+ * Directories have no modification time, and are reported with the Unix epoch.
+ */
+export class S3Provider implements DataProvider{
+	private url: URL;
+	private region: string;
+	private bucket: string;
+	private accessKeyId: string;
+	private secretAccessKey: string;
+	private sessionToken?: string;
+	private prefix: string[];
+	private pathStyle: boolean;
+	private pageSize: number;
+	private fetch: typeof fetch;
+
+	constructor(options: S3Opts){
+		this.url = new URL(options.endpoint);
+		this.region = options.region ?? 'us-east-1';
+		this.bucket = options.bucket;
+		this.accessKeyId = options.accessKeyId;
+		this.secretAccessKey = options.secretAccessKey;
+		this.sessionToken = options.sessionToken;
+		this.prefix = splitPath(options.prefix ?? '');
+		this.pathStyle = options.pathStyle ?? true;
+		this.pageSize = options.pageSize ?? 1000;
+		this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+	}
+
+	/**
+	 * Rename an item by copying and deleting every object in it.
+	 * Files replace existing files, but nothing can replace a directory.
+	 * @throws NotFoundError if nothing exists at the path
+	 * @throws ExistsError if a directory exists at the new path, or a file is in the way of a directory
+	 * @throws RangeError if a directory is moved into itself
+	 */
+	async rename(path: string, newPath: string): Promise<void>{
+		const key = this.getKey(path);
+		const newKey = this.getKey(newPath);
+		if(key === newKey) return;
+		if(await this.dirExists(newKey)) throw new ExistsError(newPath);
+		if(await this.head(key)){
+			await this.copy(key, newKey);
+			await this.delete(key);
+			return;
+		}
+		if(newKey.startsWith(key + '/')) throw new RangeError(`Cannot move ${path} into itself.`);
+		if(await this.head(newKey)) throw new ExistsError(newPath);
+		const objects = await this.listAll(key + '/');
+		if(!objects.length) throw new NotFoundError(path);
+		for(const object of objects) await this.copy(object.key, newKey + object.key.substring(key.length));
+		for(const object of objects) await this.delete(object.key);
+	}
+
+	async move(path: string, newPath: string): Promise<void>{
+		await this.rename(path, newPath);
+	}
+
+	async exists(path: string){
+		return await this.stat(path) !== null;
+	}
+
+	async removeFile(path: string): Promise<void>{
+		await this.delete(this.getKey(path));
+	}
+
+	/**
+	 * Delete a directory along with every object in it. Like fs.rm, a file at the path is deleted as well.
+	 * @throws NotFoundError if nothing exists at the path
+	 */
+	async removeDir(path: string): Promise<void>{
+		const key = this.getKey(path);
+		const objects = await this.listAll(key ? key + '/' : '');
+		const file = await this.head(key);
+		if(file) objects.push(file);
+		if(!objects.length) throw new NotFoundError(path);
+		for(const object of objects) await this.delete(object.key);
+	}
+
+	async createDir(path: string, recursive?: boolean): Promise<void>{
+		const segments = splitPath(path);
+		if(!segments.length){
+			if(recursive) return;
+			throw new ExistsError(path);
+		}
+		if(!recursive){
+			const key = this.getKey(path);
+			if(segments.length > 1 && !await this.dirExists(this.getKey(segments.slice(0, -1).join('/')))) throw new NotFoundError(path);
+			if(await this.head(key) || await this.dirExists(key)) throw new ExistsError(path);
+			await this.request('PUT', key + '/');
+			return;
+		}
+		for(let i = 1; i <= segments.length; i++){
+			const key = this.getKey(segments.slice(0, i).join('/'));
+			if(await this.head(key)) throw new ExistsError(path);
+			if(i === segments.length || !await this.dirExists(key)) await this.request('PUT', key + '/');
+		}
+	}
+
+	async readFile(path: string, progress?: ProgressCallback): Promise<Uint8Array>{
+		const res = await this.request('GET', this.getKey(path));
+		return await readBody(res, progress);
+	}
+
+	async readFileString(path: string, progress?: ProgressCallback): Promise<string>{
+		return new TextDecoder().decode(await this.readFile(path, progress));
+	}
+
+	/**
+	 * List the items in a directory
+	 * @throws NotFoundError if the directory does not exist
+	 */
+	async listItems(path: string): Promise<Item[]>{
+		const key = this.getKey(path);
+		const prefix = key ? key + '/' : '';
+		const fullPrefix = path.replace(/\/+$/, '');
+		const items: Item[] = [];
+		let found = false;
+		let token: string | undefined;
+		do{
+			const page = await this.listPage(prefix, '/', token);
+			token = page.token;
+			for(const object of page.objects){
+				found = true;
+				// Marker of the directory itself
+				if(object.key === prefix) continue;
+				const name = object.key.substring(prefix.length);
+				items.push({
+					type: 'f',
+					name: name,
+					fullName: `${fullPrefix}/${name}` as ItemPath,
+					lastMod: object.lastMod,
+					size: object.size
+				});
+			}
+			for(const dir of page.prefixes){
+				found = true;
+				const name = dir.substring(prefix.length, dir.length - 1);
+				items.push({
+					type: 'd',
+					name: name,
+					fullName: `${fullPrefix}/${name}` as ItemPath,
+					lastMod: new Date(0)
+				});
+			}
+		} while(token !== undefined);
+		if(!found && key !== this.getKey('')) throw new NotFoundError(path);
+		return items;
+	}
+
+	/**
+	 * Upload a file. Total passed to the progress callback is the size of the file, and it is called once the upload is complete,
+	 * as fetch does not report upload progress.
+	 */
+	async writeFile(path: string, content: Uint8Array | string, progress?: ProgressCallback): Promise<void>{
+		const data = typeof(content) === 'string' ? new TextEncoder().encode(content) : content;
+		await this.request('PUT', this.getKey(path), {
+			headers: {'Content-Type': 'application/octet-stream'},
+			body: data
+		});
+		if(progress) progress(data.byteLength, data.byteLength);
+	}
+
+	async *readFileStream(path: string, progress?: ProgressCallback): AsyncGenerator<Uint8Array>{
+		const res = await this.request('GET', this.getKey(path));
+		yield* streamBody(res, progress);
+	}
+
+	async readFileRange(path: string, start: number, length: number): Promise<Uint8Array>{
+		if(length <= 0) return new Uint8Array();
+		const res = await this.request('GET', this.getKey(path), {
+			headers: {Range: `bytes=${start}-${start + length - 1}`}
+		}, [416]);
+		if(res.status === 416) return new Uint8Array();
+		const data = await readBody(res);
+		if(res.status === 200) return data.slice(start, start + length);
+		return data;
+	}
+
+	async stat(path: string): Promise<Item | null>{
+		const segments = splitPath(path);
+		const key = this.getKey(path);
+		const base = {
+			name: segments[segments.length - 1] ?? '',
+			fullName: path as ItemPath
+		};
+		const file = await this.head(key);
+		if(file) return {...base, type: 'f', lastMod: file.lastMod, size: file.size};
+		if(await this.dirExists(key)) return {...base, type: 'd', lastMod: new Date(0)};
+		return null;
+	}
+
+	/**
+	 * Get the key an object is stored at
+	 * @param path Path within this provider
+	 */
+	getKey(path: string){
+		return [...this.prefix, ...splitPath(path)].join('/');
+	}
+
+	/**
+	 * Get information about an object
+	 * @returns Information, or null if the object does not exist
+	 */
+	private async head(key: string): Promise<S3Object | null>{
+		if(key === this.getKey('')) return null;
+		const res = await this.request('HEAD', key, undefined, [404]);
+		if(res.status === 404) return null;
+		return {
+			key: key,
+			lastMod: new Date(res.headers.get('Last-Modified') ?? 0),
+			size: Number(res.headers.get('Content-Length') ?? 0)
+		};
+	}
+
+	private async dirExists(key: string){
+		if(key === this.getKey('')) return true;
+		const page = await this.listPage(key + '/', '/', undefined, 1);
+		return page.objects.length > 0 || page.prefixes.length > 0;
+	}
+
+	private async copy(key: string, newKey: string){
+		await this.request('PUT', newKey, {
+			headers: {'x-amz-copy-source': `/${this.bucket}/${encodeKey(key)}`}
+		});
+	}
+
+	private async delete(key: string){
+		await this.request('DELETE', key);
+	}
+
+	/**
+	 * List every object under a prefix, following continuation tokens
+	 */
+	private async listAll(prefix: string){
+		const objects: S3Object[] = [];
+		let token: string | undefined;
+		do{
+			const page = await this.listPage(prefix, undefined, token);
+			objects.push(...page.objects);
+			token = page.token;
+		} while(token !== undefined);
+		return objects;
+	}
+
+	/**
+	 * List a page of objects with ListObjectsV2
+	 * @param delimiter If set, keys containing it after the prefix are grouped into prefixes
+	 * @returns Objects, grouped prefixes, and the continuation token if there are more pages
+	 */
+	private async listPage(prefix: string, delimiter?: string, token?: string, pageSize = this.pageSize){
+		const query: {[name: string]: string} = {
+			'list-type': '2',
+			'max-keys': `${pageSize}`,
+			prefix: prefix
+		};
+		if(delimiter) query['delimiter'] = delimiter;
+		if(token) query['continuation-token'] = token;
+		const res = await this.request('GET', '', {query: query});
+		const xml = await res.text();
+		const objects: S3Object[] = findElements(xml, 'Contents').map(c => ({
+			key: findText(c, 'Key') ?? '',
+			lastMod: new Date(findText(c, 'LastModified') ?? 0),
+			size: Number(findText(c, 'Size') ?? 0)
+		}));
+		const prefixes = findElements(xml, 'CommonPrefixes').map(p => findText(p, 'Prefix') ?? '');
+		const truncated = findText(xml, 'IsTruncated') === 'true';
+		return {
+			objects: objects,
+			prefixes: prefixes,
+			token: truncated ? findText(xml, 'NextContinuationToken') ?? undefined : undefined
+		};
+	}
+
+	/**
+	 * Send a request signed with AWS Signature Version 4, and make sure it succeeded
+	 * @param key Key of the object, or empty for requests to the bucket
+	 * @param allowed Status codes other than 2xx that should be returned instead of thrown
+	 * @throws NotFoundError if the server responds with 404
+	 * @throws HttpError if the server responds with any other error
+	 */
+	private async request(method: string, key: string, init?: S3Request, allowed?: number[]){
+		const basePath = this.url.pathname.replace(/\/+$/, '');
+		const host = this.pathStyle ? this.url.host : `${this.bucket}.${this.url.host}`;
+		const path = `${basePath}${this.pathStyle ? `/${encodeKey(this.bucket)}` : ''}/${encodeKey(key)}`;
+		const query = Object.keys(init?.query ?? {})
+			.sort()
+			.map(k => `${uriEncode(k)}=${uriEncode(init!.query![k])}`)
+			.join('&');
+		const body = init?.body ?? new Uint8Array();
+		const payloadHash = body.byteLength ? toHex(await crypto.subtle.digest('SHA-256', body)) : EMPTY_HASH;
+		const date = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+		const signed: {[name: string]: string} = {
+			host: host,
+			'x-amz-content-sha256': payloadHash,
+			'x-amz-date': date
+		};
+		if(this.sessionToken) signed['x-amz-security-token'] = this.sessionToken;
+		const headers: {[name: string]: string} = {};
+		for(const name in init?.headers){
+			if(name.toLowerCase().startsWith('x-amz-')) signed[name.toLowerCase()] = init!.headers![name];
+			else headers[name] = init!.headers![name];
+		}
+		const names = Object.keys(signed).sort();
+		const canonical = [
+			method,
+			path,
+			query,
+			names.map(n => `${n}:${signed[n].trim()}\n`).join(''),
+			names.join(';'),
+			payloadHash
+		].join('\n');
+		const scope = `${date.substring(0, 8)}/${this.region}/s3/aws4_request`;
+		const stringToSign = [
+			'AWS4-HMAC-SHA256',
+			date,
+			scope,
+			toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical)))
+		].join('\n');
+		let signingKey: ArrayBuffer = new TextEncoder().encode('AWS4' + this.secretAccessKey);
+		for(const part of [date.substring(0, 8), this.region, 's3', 'aws4_request', stringToSign]){
+			signingKey = await hmac(signingKey, part);
+		}
+		delete signed['host'];
+		const res = await this.fetch(`${this.url.protocol}//${host}${path}${query ? '?' + query : ''}`, {
+			method: method,
+			headers: {
+				...headers,
+				...signed,
+				Authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${toHex(signingKey)}`
+			},
+			body: init?.body
+		});
+		if(res.ok || allowed?.includes(res.status)) return res;
+		// Drain the body so that the connection can be reused
+		await res.arrayBuffer().catch(() => undefined);
+		if(res.status === 404) throw new NotFoundError(key);
+		throw new HttpError(res.status, method, key);
+	}
+}
+
+function splitPath(path: string){
+	return path.split('/').filter(s => s !== '' && s !== '.');
+}
+
+/**
+ * Encode a string as required by Signature Version 4, which also encodes characters that encodeURIComponent leaves
+ */
+function uriEncode(text: string){
+	return encodeURIComponent(text).replace(/[!'()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+}
+
+function encodeKey(key: string){
+	return key.split('/').map(uriEncode).join('/');
+}
+
+async function hmac(key: ArrayBuffer, data: string){
+	const cryptoKey = await crypto.subtle.importKey('raw', key, {name: 'HMAC', hash: 'SHA-256'}, false, ['sign']);
+	return await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+function toHex(data: ArrayBuffer){
+	return [...new Uint8Array(data)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
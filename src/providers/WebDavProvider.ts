@@ -0,0 +1,260 @@
+import { Base64 } from "js-base64";
+import { DataProvider, ProgressCallback } from "../DataProvider";
+import { ExistsError, HttpError, NotFoundError } from "../Errors";
+import { Item, ItemPath } from "../types";
+import { findElements, findText, readBody, streamBody } from "./http";
+
+export type WebDavOpts = {
+	/**
+	 * URL of the WebDAV folder that paths are resolved against, such as https://cloud.example.com/remote.php/dav/files/user
+	 */
+	baseUrl: string;
+	/**
+	 * Headers sent with every request, such as Authorization
+	 */
+	headers?: {[name: string]: string};
+	/**
+	 * Username and password for basic authentication. Ignored if headers already has Authorization.
+	 */
+	auth?: {
+		username: string;
+		password: string;
+	};
+	/**
+	 * Fetch function to use instead of the global one
+	 */
+	fetch?: typeof fetch;
+}
+
+const PROPFIND_BODY = '<?xml version="1.0" encoding="utf-8"?>'
+	+ '<d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/><d:getlastmodified/><d:getcontentlength/></d:prop></d:propfind>';
+
+/**
+ * Data provider for WebDAV storage such as Nextcloud or ownCloud.
+ * Paths are separated by / and are appended to the base URL.
+ */
+export class WebDavProvider implements DataProvider{
+	private baseUrl: string;
+	private headers: {[name: string]: string};
+	private fetch: typeof fetch;
+
+	constructor(options: WebDavOpts){
+		this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+		this.headers = {...options.headers};
+		if(options.auth && !Object.keys(this.headers).some(h => h.toLowerCase() === 'authorization')){
+			this.headers['Authorization'] = `Basic ${Base64.encode(`${options.auth.username}:${options.auth.password}`)}`;
+		}
+		this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+	}
+
+	/**
+	 * Rename an item. Existing items at the new path are never overwritten.
+	 */
+	async rename(path: string, newPath: string): Promise<void>{
+		await this.request('MOVE', path, {
+			headers: {
+				Destination: this.getUrl(newPath),
+				Overwrite: 'F'
+			}
+		});
+	}
+
+	async move(path: string, newPath: string): Promise<void>{
+		await this.rename(path, newPath);
+	}
+
+	async exists(path: string){
+		return await this.stat(path) !== null;
+	}
+
+	async removeFile(path: string): Promise<void>{
+		await this.request('DELETE', path);
+	}
+
+	/**
+	 * Delete a folder. WebDAV always deletes folders along with their contents.
+	 */
+	async removeDir(path: string): Promise<void>{
+		await this.request('DELETE', path);
+	}
+
+	async createDir(path: string, recursive?: boolean): Promise<void>{
+		if(!recursive){
+			await this.request('MKCOL', path);
+			return;
+		}
+		const segments = splitPath(path);
+		for(let i = 1; i <= segments.length; i++){
+			const current = '/' + segments.slice(0, i).join('/');
+			const item = await this.stat(current);
+			if(item === null) await this.request('MKCOL', current);
+			else if(item.type !== 'd') throw new ExistsError(current);
+		}
+	}
+
+	async readFile(path: string, progress?: ProgressCallback): Promise<Uint8Array>{
+		const res = await this.request('GET', path);
+		return await readBody(res, progress);
+	}
+
+	async readFileString(path: string, progress?: ProgressCallback): Promise<string>{
+		return new TextDecoder().decode(await this.readFile(path, progress));
+	}
+
+	async listItems(path: string): Promise<Item[]>{
+		const res = await this.request('PROPFIND', path, {
+			headers: {
+				Depth: '1',
+				'Content-Type': 'application/xml; charset=utf-8'
+			},
+			body: PROPFIND_BODY
+		});
+		const prefix = path.replace(/\/+$/, '');
+		const own = splitHref(this.getUrl(path));
+		const items: Item[] = [];
+		for(const entry of parseMultistatus(await res.text())){
+			const segments = splitHref(entry.href);
+			// The folder itself is listed along with its children
+			if(segments.length !== own.length + 1 || !own.every((s, i) => segments[i] === s)) continue;
+			const name = segments[segments.length - 1];
+			items.push({
+				type: entry.type,
+				name: name,
+				fullName: `${prefix}/${name}` as ItemPath,
+				lastMod: entry.lastMod,
+				size: entry.size
+			});
+		}
+		return items;
+	}
+
+	/**
+	 * Upload a file. Total passed to the progress callback is the size of the file, and it is called once the upload is complete,
+	 * as fetch does not report upload progress.
+	 */
+	async writeFile(path: string, content: Uint8Array | string, progress?: ProgressCallback): Promise<void>{
+		const data = typeof(content) === 'string' ? new TextEncoder().encode(content) : content;
+		await this.request('PUT', path, {
+			headers: {'Content-Type': 'application/octet-stream'},
+			body: data
+		});
+		if(progress) progress(data.byteLength, data.byteLength);
+	}
+
+	async *readFileStream(path: string, progress?: ProgressCallback): AsyncGenerator<Uint8Array>{
+		const res = await this.request('GET', path);
+		yield* streamBody(res, progress);
+	}
+
+	async readFileRange(path: string, start: number, length: number): Promise<Uint8Array>{
+		if(length <= 0) return new Uint8Array();
+		const res = await this.request('GET', path, {
+			headers: {Range: `bytes=${start}-${start + length - 1}`}
+		}, [416]);
+		if(res.status === 416) return new Uint8Array();
+		const data = await readBody(res);
+		// Servers that ignore Range send the whole file
+		if(res.status === 200) return data.slice(start, start + length);
+		return data;
+	}
+
+	async stat(path: string): Promise<Item | null>{
+		const res = await this.request('PROPFIND', path, {
+			headers: {
+				Depth: '0',
+				'Content-Type': 'application/xml; charset=utf-8'
+			},
+			body: PROPFIND_BODY
+		}, [404]);
+		if(res.status === 404) return null;
+		const [entry] = parseMultistatus(await res.text());
+		if(!entry) return null;
+		const segments = splitPath(path);
+		return {
+			type: entry.type,
+			name: segments[segments.length - 1] ?? '',
+			fullName: path as ItemPath,
+			lastMod: entry.lastMod,
+			size: entry.size
+		};
+	}
+
+	/**
+	 * Get the URL of a path
+	 * @param path Path within this provider
+	 * @returns Absolute URL with every segment encoded
+	 */
+	getUrl(path: string){
+		return this.baseUrl + '/' + splitPath(path).map(s => encodeURIComponent(s)).join('/');
+	}
+
+	/**
+	 * Send a request, and make sure it succeeded
+	 * @param allowed Status codes other than 2xx that should be returned instead of thrown
+	 * @throws NotFoundError if the server responds with 404
+	 * @throws ExistsError if MKCOL or MOVE fails because the target already exists
+	 * @throws HttpError if the server responds with any other error
+	 */
+	private async request(method: string, path: string, init?: {headers?: {[name: string]: string}, body?: BodyInit}, allowed?: number[]){
+		const res = await this.fetch(this.getUrl(path), {
+			method: method,
+			headers: {...this.headers, ...init?.headers},
+			body: init?.body
+		});
+		if(res.ok || allowed?.includes(res.status)) return res;
+		// Drain the body so that the connection can be reused
+		await res.arrayBuffer().catch(() => undefined);
+		if(res.status === 404) throw new NotFoundError(path);
+		if(method === 'MKCOL' && res.status === 405 || method === 'MOVE' && res.status === 412) throw new ExistsError(path);
+		if(method === 'MKCOL' && res.status === 409) throw new NotFoundError(path);
+		throw new HttpError(res.status, method, path);
+	}
+}
+
+function splitPath(path: string){
+	return path.split('/').filter(s => s !== '' && s !== '.');
+}
+
+/**
+ * Split an href into decoded segments of its path. Hrefs may be absolute URLs or absolute paths,
+ * and some servers leave characters such as # unencoded, so it is not parsed as a URL.
+ */
+function splitHref(href: string){
+	return splitPath(href.replace(/^[a-z][a-z\d+.-]*:\/\/[^/]*/i, '')).map(s => {
+		try{
+			return decodeURIComponent(s);
+		} catch(e) {
+			return s;
+		}
+	});
+}
+
+type PropfindEntry = {
+	href: string;
+	type: 'f' | 'd';
+	lastMod: Date;
+	size?: number;
+}
+
+/**
+ * Parse the response of PROPFIND. Namespace prefixes differ between servers, so they are ignored.
+ * @param xml Body of a 207 Multi-Status response
+ * @returns Every resource in the response
+ */
+function parseMultistatus(xml: string): PropfindEntry[]{
+	const entries: PropfindEntry[] = [];
+	for(const response of findElements(xml, 'response')){
+		const href = findText(response, 'href');
+		if(href === null) continue;
+		const lastMod = findText(response, 'getlastmodified');
+		const size = findText(response, 'getcontentlength');
+		const isDir = /<(?:[\w.-]+:)?collection\s*\/?>/.test(response);
+		entries.push({
+			href: href,
+			type: isDir ? 'd' : 'f',
+			lastMod: lastMod ? new Date(lastMod) : new Date(0),
+			size: !isDir && size ? Number(size) : undefined
+		});
+	}
+	return entries;
+}
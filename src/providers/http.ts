@@ -0,0 +1,91 @@
+import type { ProgressCallback } from "../DataProvider";
+
+/**
+ * Read the body of a response, reporting progress along the way
+ * @param progress Called with the number of bytes read so far, and Content-Length (-1 if unknown)
+ */
+export async function readBody(res: Response, progress?: ProgressCallback){
+	if(!res.body || !progress){
+		const data = new Uint8Array(await res.arrayBuffer());
+		if(progress) progress(data.byteLength, data.byteLength);
+		return data;
+	}
+	const chunks: Uint8Array[] = [];
+	let length = 0;
+	for await (const chunk of streamBody(res, progress)){
+		chunks.push(chunk);
+		length += chunk.byteLength;
+	}
+	const data = new Uint8Array(length);
+	let offset = 0;
+	for(const c of chunks){
+		data.set(c, offset);
+		offset += c.byteLength;
+	}
+	return data;
+}
+
+/**
+ * Read the body of a response in chunks as they arrive
+ * @param progress Called with the number of bytes read so far, and Content-Length (-1 if unknown)
+ */
+export async function *streamBody(res: Response, progress?: ProgressCallback): AsyncGenerator<Uint8Array>{
+	const total = Number(res.headers.get('Content-Length') ?? -1);
+	if(!res.body){
+		const data = new Uint8Array(await res.arrayBuffer());
+		if(progress) progress(data.byteLength, data.byteLength);
+		yield data;
+		return;
+	}
+	const reader = res.body.getReader();
+	let current = 0;
+	try{
+		while(true){
+			const {done, value} = await reader.read();
+			if(done) return;
+			current += value.byteLength;
+			if(progress) progress(current, total);
+			yield value;
+		}
+	} finally {
+		await reader.cancel();
+	}
+}
+
+/**
+ * Find the contents of every element with a name. Namespace prefixes differ between servers, so they are ignored.
+ * Elements must not contain elements with the same name.
+ * @param xml XML to search in
+ * @param name Local name of the elements
+ * @returns Raw contents of the elements. Use decodeEntities for text.
+ */
+export function findElements(xml: string, name: string){
+	const pattern = new RegExp(`<(?:[\\w.-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}>`, 'g');
+	return [...xml.matchAll(pattern)].map(m => m[1]);
+}
+
+/**
+ * Find the text of the first element with a name
+ * @returns Decoded and trimmed text, or null if there is no such element
+ */
+export function findText(xml: string, name: string){
+	const [element] = findElements(xml, name);
+	return element === undefined ? null : decodeEntities(element.trim());
+}
+
+/**
+ * Decode XML entities in text
+ */
+export function decodeEntities(text: string){
+	return text.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+		switch(entity){
+			case 'lt': return '<';
+			case 'gt': return '>';
+			case 'quot': return '"';
+			case 'apos': return "'";
+			case 'amp': return '&';
+		}
+		if(entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+		return String.fromCodePoint(parseInt(entity.slice(1), 10));
+	});
+}
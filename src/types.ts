@@ -2,6 +2,10 @@ export type ItemBase = {
 	name: string;
 	fullName: ItemPath;
 	lastMod: Date;
+	/**
+	 * Size in bytes, if the data provider knows it. Not set for directories.
+	 */
+	size?: number;
 }
 
 export type Directory = ItemBase & {
@@ -12,6 +16,10 @@ export type File = ItemBase & {
 	type: 'f';
 }
 
+export type Symlink = ItemBase & {
+	type: 's';
+}
+
 export type Item = File | Directory;
 
 export type ItemPath = string & {__type: 'ItemPath'};
@@ -0,0 +1,101 @@
+import { describe, expect, test } from '@jest/globals';
+import { runCli } from '../src/Cli';
+import { InMemoryProvider } from '../src/providers/InMemoryProvider';
+
+/**
+ * Run a command against a provider, with the vault and the password given in the environment
+ */
+async function run(provider: InMemoryProvider, args: string[], env: {[name: string]: string} = {}){
+	let stdout = '';
+	let stderr = '';
+	const code = await runCli(args, {
+		provider: provider,
+		env: {CRYPTOMATOR_VAULT: '/vault', CRYPTOMATOR_PASSWORD: '12341234', ...env},
+		stdout: async (data) => {
+			stdout += typeof(data) === 'string' ? data : new TextDecoder().decode(data);
+		},
+		stderr: (text) => {
+			stderr += text;
+		},
+		prompt: async () => {
+			throw new Error('Prompted for a password');
+		}
+	});
+	return {code, stdout, stderr};
+}
+
+describe('Test command line interface', () => {
+	test('Try managing files with the command line interface', async () => {
+		const provider = new InMemoryProvider();
+		await provider.createDir('/local/photos/2024', true);
+		await provider.writeFile('/local/report.txt', 'Report');
+		await provider.writeFile('/local/photos/a.jpg', new Uint8Array(40000).fill(1));
+		await provider.writeFile('/local/photos/2024/b.jpg', 'B');
+
+		expect((await run(provider, ['create', '/vault'])).code).toBe(0);
+		expect((await run(provider, ['mkdir', '-p', '/docs/old'])).code).toBe(0);
+		expect((await run(provider, ['put', '/local/report.txt', '/docs'])).code).toBe(0);
+		const put = await run(provider, ['put', '/local/photos', '/', '--json']);
+		expect(put.code).toBe(0);
+		expect(JSON.parse(put.stdout)).toEqual({files: 2, skipped: 0, dirs: 2, bytes: 40001, failures: []});
+		// Files are not overwritten unless asked to
+		const again = await run(provider, ['put', '/local/report.txt', '/docs/report.txt']);
+		expect(again.code).toBe(1);
+		expect(again.stderr).toContain('report.txt: Already exists');
+
+		const ls = await run(provider, ['ls', '/docs', '--json']);
+		expect(JSON.parse(ls.stdout).map((i: {name: string, type: string, size: number | null}) => [i.name, i.type, i.size])).toEqual([['old', 'd', null], ['report.txt', 'f', 6]]);
+		await expect(run(provider, ['cat', '/docs/report.txt']).then(r => r.stdout)).resolves.toBe('Report');
+
+		expect((await run(provider, ['mv', '/docs/report.txt', '/docs/old/renamed.txt'])).code).toBe(0);
+		// Only the final name is checked for conflicts, so an item with the old name in the target directory is left alone
+		const names = async (path: string) => JSON.parse((await run(provider, ['ls', path, '--json'])).stdout).map((i: {name: string}) => i.name);
+		expect((await run(provider, ['put', '/local/report.txt', '/docs/renamed.txt'])).code).toBe(0);
+		expect((await run(provider, ['mv', '/docs/old/renamed.txt', '/docs/final.txt'])).code).toBe(0);
+		expect((await run(provider, ['put', '/local/report.txt', '/docs/old/final.txt'])).code).toBe(0);
+		expect((await run(provider, ['mv', '/docs/old/final.txt', '/docs/other.txt', '--conflict', 'overwrite'])).code).toBe(0);
+		await expect(names('/docs')).resolves.toEqual(['final.txt', 'old', 'other.txt', 'renamed.txt']);
+		await expect(names('/docs/old')).resolves.toEqual([]);
+		expect((await run(provider, ['rm', '/docs/renamed.txt'])).code).toBe(0);
+		expect((await run(provider, ['rm', '/docs/other.txt'])).code).toBe(0);
+		expect((await run(provider, ['mv', '/docs/final.txt', '/docs/old/renamed.txt'])).code).toBe(0);
+		const cp = await run(provider, ['cp', '/photos', '/docs', '--json']);
+		expect(JSON.parse(cp.stdout)).toEqual({from: '/photos', to: '/docs/photos'});
+		const tree = await run(provider, ['tree', '/docs']);
+		expect(tree.stdout).toBe('docs/\n  old/\n    renamed.txt\n  photos/\n    2024/\n      b.jpg\n    a.jpg\n');
+
+		// Directories are only deleted with -r
+		const rm = await run(provider, ['rm', '/photos']);
+		expect(rm.code).toBe(1);
+		expect(rm.stderr).toContain('/photos: Is a directory');
+		expect((await run(provider, ['rm', '-r', '/photos'])).code).toBe(0);
+		await expect(run(provider, ['ls', '/photos']).then(r => r.stderr)).resolves.toContain('/photos: No such file or directory');
+
+		expect((await run(provider, ['get', '/docs', '/local/out'])).code).toBe(0);
+		await expect(provider.readFile('/local/out/photos/a.jpg')).resolves.toEqual(new Uint8Array(40000).fill(1));
+		await expect(provider.readFileString('/local/out/old/renamed.txt')).resolves.toBe('Report');
+		expect((await run(provider, ['get', '/docs/old/renamed.txt', '/local'])).code).toBe(0);
+		await expect(provider.readFileString('/local/renamed.txt')).resolves.toBe('Report');
+	});
+
+	test('Try changing the password and checking a vault with the command line interface', async () => {
+		const provider = new InMemoryProvider();
+		expect((await run(provider, ['create', '/vault'])).code).toBe(0);
+		const info = await run(provider, ['info', '--json']);
+		expect(JSON.parse(info.stdout)).toMatchObject({name: 'vault', dir: '/vault', format: 8, cipherCombo: 'SIV_CTRMAC'});
+
+		const passwd = await run(provider, ['passwd', '--new-password-env', 'NEW_PASSWORD'], {NEW_PASSWORD: 'new password'});
+		expect(passwd.code).toBe(0);
+		const wrong = await run(provider, ['ls']);
+		expect(wrong.code).toBe(1);
+		expect(wrong.stderr).toBe('cryptomator-ts: Wrong password\n');
+		expect((await run(provider, ['ls', '--password-env', 'NEW_PASSWORD'], {NEW_PASSWORD: 'new password'})).code).toBe(0);
+
+		const check = await run(provider, ['check', '--contents', '--json'], {CRYPTOMATOR_PASSWORD: 'new password'});
+		expect(check.code).toBe(0);
+		expect(JSON.parse(check.stdout)).toEqual([]);
+
+		expect((await run(provider, ['frobnicate'])).code).toBe(2);
+		expect((await run(provider, ['ls', '--unknown'])).code).toBe(2);
+	});
+});
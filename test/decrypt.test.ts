@@ -4,7 +4,8 @@ import { Vault } from '../src/Vault';
 import { LocalStorageProvider } from '../src/providers/LocalStorageProvider';
 import { DirID, ItemPath } from '../src/types';
 import { EncryptedFile } from '../src/encrypted/EncryptedFile';
-import { InvalidSignatureError } from '../src/Errors';
+import { InvalidRecoveryKeyError, InvalidSignatureError } from '../src/Errors';
+import { decodeRecoveryKey } from '../src/RecoveryKey';
 
 async function decrypt(provider: LocalStorageProvider, password: string, vaultNumber: number, options?: {
 	vaultFile?: ItemPath
@@ -49,6 +50,23 @@ describe('Test opening an existing vault', () => {
 		await expect(decrypt(provider, 'qq11@@11', 1)).resolves.not.toThrowError();
 	});
 
+	test('Make sure recovery keys are encoded the same way as by the official app', async () => {
+		const vault = await decrypt(provider, 'qq11@@11', 1);
+		// Words are named after their index, so that the key can be checked against the indices the official app produces for this masterkey.
+		// The last two words hold the 2 low bytes of the CRC32 of the keys (0xecb57c01) in little-endian order.
+		const wordList = Array.from({length: 4096}, (_, i) => `w${i}`);
+		const indices = [
+			523, 3194, 2601, 2327, 3641, 3224, 3029, 2540, 1185, 1575, 2443, 555, 540, 1431, 1248, 709, 2444, 2386, 4022, 3730, 2364, 2375,
+			3367, 2907, 1276, 137, 3625, 1096, 2119, 4034, 121, 32, 951, 1503, 2841, 2992, 138, 26, 2141, 3770, 2477, 734, 2672, 380
+		];
+		const recoveryKey = indices.map(i => wordList[i]).join(' ');
+		await expect(vault.createRecoveryKey(wordList)).resolves.toBe(recoveryKey);
+		expect(decodeRecoveryKey(recoveryKey, wordList).byteLength).toBe(64);
+		// The same checksum bytes in big-endian order are rejected
+		const bigEndian = [...indices.slice(0, 42), 0xA7E, 0xCB5];
+		expect(() => decodeRecoveryKey(bigEndian.map(i => wordList[i]).join(' '), wordList)).toThrowError(InvalidRecoveryKeyError);
+	});
+
 	test('Try listing encrypted items in root', async () => {
 		const vault = await decrypt(provider, 'qq11@@11', 1);
 		await expect(vault.listEncrypted('' as DirID)).resolves.not.toThrowError();
@@ -92,6 +110,16 @@ describe('Test opening an existing vault', () => {
 		await expect(Promise.all(folderNames)).resolves.not.toThrowError();
 	});
 
+	test('Try verifying backup directory IDs of folders in root', async () => {
+		const vault = await decrypt(provider, 'qq11@@11', 1);
+		const items = await vault.listItems('' as DirID);
+		const results: Promise<boolean>[] = [];
+		for(const item of items){
+			if(item.type === 'd') results.push(item.verifyDirId());
+		}
+		await expect(Promise.all(results)).resolves.toStrictEqual([true, true, true, true]);
+	});
+
 	test('Try decrypting header of a file', async () => {
 		const vault = await decrypt(provider, 'qq11@@11', 1);
 		const items = await vault.listItems('' as DirID);
@@ -1,13 +1,16 @@
-import { beforeAll, describe, expect, test } from '@jest/globals';
+import { beforeAll, describe, expect, jest, test } from '@jest/globals';
 import path from "path";
-import { Vault } from '../src/Vault';
+import { MigrationStep, Vault } from '../src/Vault';
 import { LocalStorageProvider } from '../src/providers/LocalStorageProvider';
 import { EncryptedFile } from '../src/encrypted/EncryptedFile';
 import { DirID } from '../src/types';
-import { DecryptionError, DecryptionTarget } from '../src/Errors';
+import { DecryptionError, DecryptionTarget, InvalidRecoveryKeyError, InvalidSignatureError, ItemTypeError, NotFoundError, UnsupportedFormatError, UnsupportedKeyError, ExistsError } from '../src/Errors';
 import crypto from 'node:crypto';
 import { TargetFS } from './TargetFS';
 import { EncryptedDir } from '../src/encrypted/EncryptedDir';
+import { EncryptedSymlink } from '../src/encrypted/EncryptedSymlink';
+import { InMemoryProvider } from '../src/providers/InMemoryProvider';
+import { intercept, withMiddleware } from '../src/Middleware';
 
 async function randomBuffer(size: number): Promise<Uint8Array>{
 	const arr = new Uint8Array(size);
@@ -50,7 +53,7 @@ describe('Test creating a vault', () => {
 			const items = await v.listItems('' as DirID);
 			for(let i = 0; i < limit; i++){
 				const item = items.find(it => it.decryptedName === `TestFile${i}.bin`);
-				if(!item || item.type === 'd') return false;
+				if(!item || item.type !== 'f') return false;
 				const fileContent = await item.decrypt();
 				const hash = crypto.createHash('sha256').update(fileContent.content).digest();
 				if(Buffer.compare(hash, hashes[i]) !== 0) return false;
@@ -60,6 +63,391 @@ describe('Test creating a vault', () => {
 		
 		await expect(testFunction()).resolves.toBe(true);
 	});
+	test('Try encrypting and decrypting files as streams', async () => {
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest7'
+			}
+		});
+		const testFunction = async () => {
+			const sizes = [0, 1, 32767, 32768, 32769, 100000, 32768 * 5];
+			const hashes: Buffer[] = [];
+			for(const size of sizes){
+				const b = await randomBuffer(size);
+				hashes.push(crypto.createHash('sha256').update(b).digest());
+				// Feed the content in pieces that never line up with chunk boundaries
+				const stream = new ReadableStream<Uint8Array>({
+					start(controller){
+						for(let i = 0; i < b.byteLength; i += 1000) controller.enqueue(b.slice(i, i + 1000));
+						controller.close();
+					}
+				});
+				await EncryptedFile.encryptStream(v, `Stream${size}.bin`, '' as DirID, stream);
+				await EncryptedFile.encrypt(v, `Buffer${size}.bin`, '' as DirID, b);
+			}
+			const items = await v.listItems('' as DirID);
+			for(let i = 0; i < sizes.length; i++){
+				for(const prefix of ['Stream', 'Buffer']){
+					const item = items.find(it => it.decryptedName === `${prefix}${sizes[i]}.bin`);
+					if(!item || item.type !== 'f') return false;
+					const chunks: Uint8Array[] = [];
+					for await (const c of item.decryptContentStream()) chunks.push(c);
+					const streamed = crypto.createHash('sha256').update(Buffer.concat(chunks)).digest();
+					const whole = crypto.createHash('sha256').update((await item.decrypt()).content).digest();
+					if(Buffer.compare(streamed, hashes[i]) !== 0 || Buffer.compare(whole, hashes[i]) !== 0) return false;
+				}
+			}
+			return true;
+		}
+		await expect(testFunction()).resolves.toBe(true);
+	});
+	test('Try reading parts of a file', async () => {
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest8'
+			}
+		});
+		const b = await randomBuffer(32768 * 4 + 1234);
+		const file = await EncryptedFile.encrypt(v, 'Range.bin', '' as DirID, b);
+		const ranges = [[0, 10], [0, 32768], [32760, 20], [32768, 32768], [100, 32768 * 3], [32768 * 4, 1234], [32768 * 4 + 1000, 5000], [b.byteLength, 10], [b.byteLength + 50000, 10], [1, Number.MAX_SAFE_INTEGER]];
+		const testFunction = async () => {
+			for(const [offset, length] of ranges){
+				const part = await file.readRange(offset, length);
+				if(Buffer.compare(part, b.slice(offset, offset + length)) !== 0) return false;
+			}
+			await expect(file.readRange(0.5, 10)).rejects.toThrow(RangeError);
+			// Without ranged reads or sizes, the whole file is read, and only as much as it holds is decrypted
+			const memory = new InMemoryProvider();
+			const listItems = memory.listItems.bind(memory);
+			const bareProvider = Object.assign(memory, {
+				stat: undefined,
+				readFileRange: undefined,
+				listItems: async (path: string) => (await listItems(path)).map(i => ({...i, size: undefined}))
+			});
+			const bare = await Vault.create(bareProvider, '/', '12341234', {
+				create: {
+					name: 'rangeTest'
+				}
+			});
+			const bareFile = await EncryptedFile.encrypt(bare, 'Range.bin', '' as DirID, b);
+			for(const [offset, length] of ranges){
+				const part = await bareFile.readRange(offset, length);
+				if(Buffer.compare(part, b.slice(offset, offset + length)) !== 0) return false;
+			}
+			return true;
+		}
+		await expect(testFunction()).resolves.toBe(true);
+	});
+	test('Try creating, moving and deleting symlinks', async () => {
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest9'
+			}
+		});
+		const testFunction = async () => {
+			const root = await v.getRootDir();
+			const folder = await root.createDirectory('Folder');
+			await root.createSymlink('Link', '/some/target');
+			await root.createSymlink('L'.repeat(300), '../relative/target');
+			await folder.createSymlink('Inner', 'Folder');
+			let items = await root.listItems();
+			const link = items.find(i => i.decryptedName === 'Link');
+			const longLink = items.find(i => i.decryptedName === 'L'.repeat(300));
+			if(!link || link.type !== 's' || !longLink || longLink.type !== 's' || !longLink.shortened) return false;
+			if(await link.getTarget(true) !== '/some/target' || await longLink.getTarget(true) !== '../relative/target') return false;
+			await link.rename('Renamed');
+			await longLink.move(await folder.getDirId());
+			items = await folder.listItems();
+			const moved = items.find(i => i.decryptedName === 'L'.repeat(300));
+			if(items.length !== 2 || !moved || moved.type !== 's' || await moved.getTarget() !== '../relative/target') return false;
+			items = await root.listItems();
+			const renamed = items.find(i => i.decryptedName === 'Renamed');
+			if(!renamed || renamed.type !== 's' || await renamed.getTarget() !== '/some/target') return false;
+			await renamed.deleteSymlink();
+			await folder.deleteDir();
+			return (await root.listItems()).length === 0;
+		}
+		await expect(testFunction()).resolves.toBe(true);
+	});
+	test('Try writing and verifying backup directory IDs', async () => {
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest10'
+			}
+		});
+		const testFunction = async () => {
+			const root = await v.getRootDir();
+			if(await v.readDirIdBackup(await v.getRootDirPath()) !== '') return false;
+			const folder = await root.createDirectory('Folder');
+			const longFolder = await folder.createDirectory('F'.repeat(300));
+			if(!await folder.verifyDirId() || !await longFolder.verifyDirId()) return false;
+			// Replace the backup with the one from a different folder, which should be detected
+			const other = await root.createDirectory('Other');
+			const otherBackup = await provider.readFile(`${await v.getDir(await other.getDirId())}/dirid.c9r`);
+			await provider.writeFile(`${await v.getDir(await folder.getDirId())}/dirid.c9r`, otherBackup);
+			return !await folder.verifyDirId();
+		}
+		await expect(testFunction()).resolves.toBe(true);
+	});
+	test('Try changing the password of a vault', async () => {
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest11'
+			}
+		});
+		await EncryptedFile.encrypt(v, 'File.txt', '' as DirID, 'Still readable');
+		await expect(v.changePassword('wrong', 'abcdabcd')).rejects.toThrowError(DecryptionError<DecryptionTarget.Vault>);
+		const backup = await v.changePassword('12341234', 'abcdabcd', {scryptCostParam: 16384});
+		await expect(provider.exists(backup)).resolves.toBe(true);
+		await expect(Vault.open(provider, path.resolve(dir, 'encTest11'), '12341234', 'encTest11')).rejects.toThrowError(DecryptionError<DecryptionTarget.Vault>);
+		const reopened = await Vault.open(provider, path.resolve(dir, 'encTest11'), 'abcdabcd', 'encTest11');
+		expect(reopened.vaultSettings.scryptCostParam).toBe(16384);
+		const items = await reopened.listItems('' as DirID);
+		const file = items.find(i => i.decryptedName === 'File.txt') as EncryptedFile;
+		await expect(file.decryptAsString()).resolves.toStrictEqual({title: 'File.txt', content: 'Still readable'});
+	});
+	test('Make sure the masterkey is never lost when it cannot be replaced', async () => {
+		const memory = new InMemoryProvider();
+		let failure: 'network' | 'no-overwrite' | null = null;
+		// Renaming either fails altogether, or refuses to replace an existing file the way WebDAV does with Overwrite: F
+		const failing = intercept({
+			call: async (call, run) => {
+				if(call.method === 'rename' && failure === 'network') throw new TypeError('fetch failed');
+				if(call.method === 'rename' && failure === 'no-overwrite' && await memory.exists(call.args[1] as string)) throw new ExistsError(call.args[1] as string);
+				return await run();
+			}
+		});
+		const p = withMiddleware(memory, failing);
+		const v = await Vault.create(p, '/', '12341234', {
+			create: {
+				name: 'masterkeyTest'
+			}
+		});
+		const masterkey = '/masterkeyTest/masterkey.cryptomator';
+		const original = await memory.readFileString(masterkey);
+		failure = 'network';
+		await expect(v.changePassword('12341234', 'abcdabcd')).rejects.toThrowError(TypeError);
+		await expect(memory.readFileString(masterkey)).resolves.toBe(original);
+		await expect(memory.exists(`${masterkey}.tmp`)).resolves.toBe(false);
+		failure = 'no-overwrite';
+		await v.changePassword('12341234', 'abcdabcd');
+		await expect(memory.exists(`${masterkey}.old`)).resolves.toBe(false);
+		await expect(Vault.open(p, '/masterkeyTest', 'abcdabcd', 'masterkeyTest')).resolves.toBeInstanceOf(Vault);
+	});
+	test('Try restoring a vault with a recovery key', async () => {
+		// Any list of 4096 unique words works for restoring. Compatibility with the official app is tested with an existing vault in decrypt.test.ts.
+		const wordList = Array.from({length: 4096}, (_, i) => `word${i.toString(36)}`);
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest12'
+			}
+		});
+		const other = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest13'
+			}
+		});
+		await EncryptedFile.encrypt(v, 'File.txt', '' as DirID, 'Recovered');
+		const recoveryKey = await v.createRecoveryKey(wordList);
+		expect(recoveryKey.split(' ').length).toBe(44);
+		const words = recoveryKey.split(' ');
+		words[3] = words[3] === wordList[0] ? wordList[1] : wordList[0];
+		await expect(Vault.restoreFromRecoveryKey(provider, path.resolve(dir, 'encTest12'), words.join(' '), 'abcdabcd', {wordList})).rejects.toThrowError(InvalidRecoveryKeyError);
+		await expect(Vault.restoreFromRecoveryKey(provider, path.resolve(dir, 'encTest12'), await other.createRecoveryKey(wordList), 'abcdabcd', {wordList})).rejects.toThrowError(DecryptionError<DecryptionTarget.Vault>);
+		const restored = await Vault.restoreFromRecoveryKey(provider, path.resolve(dir, 'encTest12'), recoveryKey, 'abcdabcd', {wordList});
+		await expect(restored.createRecoveryKey(wordList)).resolves.toBe(recoveryKey);
+		await expect(Vault.open(provider, path.resolve(dir, 'encTest12'), '12341234', 'encTest12')).rejects.toThrowError(DecryptionError<DecryptionTarget.Vault>);
+		const reopened = await Vault.open(provider, path.resolve(dir, 'encTest12'), 'abcdabcd', 'encTest12');
+		// The version is signed the same way as by Vault.create and Vault.migrate
+		const version = Buffer.alloc(4);
+		version.writeUInt32BE(999);
+		const versionMac = crypto.createHmac('sha256', Buffer.from(await crypto.subtle.exportKey('raw', reopened.macKey))).update(version).digest('base64');
+		expect(JSON.parse(await provider.readFileString(path.resolve(dir, 'encTest12', 'masterkey.cryptomator'))).versionMac).toBe(versionMac);
+		const items = await reopened.listItems('' as DirID);
+		const file = items.find(i => i.decryptedName === 'File.txt') as EncryptedFile;
+		await expect(file.decryptAsString()).resolves.toStrictEqual({title: 'File.txt', content: 'Recovered'});
+	});
+	test('Try other signature algorithms, masterkey locations and key loaders', async () => {
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest14'
+			},
+			vault: {
+				algorithm: 'HS512'
+			},
+			masterkeyFile: 'keys/custom.cryptomator'
+		});
+		const vaultDir = path.resolve(dir, 'encTest14');
+		expect(v.masterkeyFile).toBe(`${vaultDir}/keys/custom.cryptomator`);
+		await expect(provider.exists(`${vaultDir}/masterkey.cryptomator`)).resolves.toBe(false);
+		await EncryptedFile.encrypt(v, 'File.txt', '' as DirID, 'HS512');
+		const reopened = await Vault.open(provider, vaultDir, '12341234', 'encTest14');
+		expect(reopened.vaultSettings.algorithm).toBe('HS512');
+		const file = (await reopened.listItems('' as DirID)).find(i => i.decryptedName === 'File.txt') as EncryptedFile;
+		await expect(file.decryptAsString()).resolves.toStrictEqual({title: 'File.txt', content: 'HS512'});
+
+		const rawKey = new Uint8Array(64);
+		rawKey.set(new Uint8Array(await crypto.subtle.exportKey('raw', v.encKey)), 0);
+		rawKey.set(new Uint8Array(await crypto.subtle.exportKey('raw', v.macKey)), 32);
+		const token = await provider.readFileString(`${vaultDir}/vault.cryptomator`);
+		const [header, payload, signature] = token.split('.');
+		const decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString());
+		decodedHeader.kid = 'hub+https://example.com/vaults/1234';
+		const hubHeader = Buffer.from(JSON.stringify(decodedHeader)).toString('base64url');
+		const hubSignature = crypto.createHmac('sha512', rawKey).update(`${hubHeader}.${payload}`).digest('base64url');
+		expect(signature).not.toBe(hubSignature);
+		await provider.writeFile(`${vaultDir}/vault.cryptomator`, `${hubHeader}.${payload}.${hubSignature}`);
+		await expect(Vault.open(provider, vaultDir, '12341234', 'encTest14')).rejects.toThrowError(UnsupportedKeyError);
+		const loaded = await Vault.open(provider, vaultDir, '', 'encTest14', {
+			keyLoader: async (keyId) => keyId.startsWith('hub+') ? rawKey.slice() : null
+		});
+		expect(loaded.masterkeyFile).toBeNull();
+		const loadedFile = (await loaded.listItems('' as DirID)).find(i => i.decryptedName === 'File.txt') as EncryptedFile;
+		await expect(loadedFile.decryptAsString()).resolves.toStrictEqual({title: 'File.txt', content: 'HS512'});
+	});
+	test('Try creating and reading a vault that uses AES-GCM', async () => {
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest15'
+			},
+			vault: {
+				cipherCombo: 'SIV_GCM'
+			}
+		});
+		const b = await randomBuffer(32768 * 2 + 1234);
+		const file = await EncryptedFile.encrypt(v, 'GCM.bin', '' as DirID, b);
+		const encrypted = await file.readEncryptedFile();
+		expect(encrypted.byteLength).toBe(68 + b.byteLength + 3 * 28);
+		// Decrypt the first chunk independently to make sure the layout matches the specification
+		const encKey = Buffer.from(await crypto.subtle.exportKey('raw', v.encKey));
+		const headerDecipher = crypto.createDecipheriv('aes-256-gcm', encKey, encrypted.subarray(0, 12));
+		headerDecipher.setAuthTag(encrypted.subarray(52, 68));
+		const headerPayload = Buffer.concat([headerDecipher.update(encrypted.subarray(12, 52)), headerDecipher.final()]);
+		const chunk = encrypted.subarray(68, 68 + 32768 + 28);
+		const chunkDecipher = crypto.createDecipheriv('aes-256-gcm', headerPayload.subarray(8), chunk.subarray(0, 12));
+		chunkDecipher.setAAD(Buffer.concat([Buffer.alloc(8), encrypted.subarray(0, 12)]));
+		chunkDecipher.setAuthTag(chunk.subarray(chunk.byteLength - 16));
+		const firstChunk = Buffer.concat([chunkDecipher.update(chunk.subarray(12, chunk.byteLength - 16)), chunkDecipher.final()]);
+		expect(Buffer.compare(firstChunk, b.subarray(0, 32768))).toBe(0);
+
+		await v.createDirectory('Folder', '' as DirID);
+		await v.createSymlink('Link', '/target', '' as DirID);
+		const reopened = await Vault.open(provider, path.resolve(dir, 'encTest15'), '12341234', 'encTest15');
+		expect(reopened.vaultSettings.cipherCombo).toBe('SIV_GCM');
+		const items = await reopened.listItems('' as DirID);
+		const reopenedFile = items.find(i => i.decryptedName === 'GCM.bin') as EncryptedFile;
+		expect(Buffer.compare((await reopenedFile.decrypt()).content, b)).toBe(0);
+		expect(Buffer.compare(await reopenedFile.readRange(32760, 40), b.subarray(32760, 32800))).toBe(0);
+		const link = items.find(i => i.decryptedName === 'Link') as EncryptedSymlink;
+		await expect(link.getTarget()).resolves.toBe('/target');
+		const folder = items.find(i => i.decryptedName === 'Folder') as EncryptedDir;
+		await expect(folder.verifyDirId()).resolves.toBe(true);
+
+		encrypted[100] ^= 1;
+		await provider.writeFile(reopenedFile.getContentPath(), encrypted);
+		await expect(reopenedFile.decrypt()).rejects.toThrowError(InvalidSignatureError);
+	});
+	test('Try opening and migrating a vault of format 7', async () => {
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest16'
+			}
+		});
+		await EncryptedFile.encrypt(v, 'Legacy.txt', '' as DirID, 'Format 7');
+		const vaultDir = path.resolve(dir, 'encTest16');
+		// Turn the vault into format 7: no vault.cryptomator, and the version signed in masterkey.cryptomator
+		const macKey = Buffer.from(await crypto.subtle.exportKey('raw', v.macKey));
+		const mk = JSON.parse(await provider.readFileString(`${vaultDir}/masterkey.cryptomator`));
+		const signVersion = (version: number) => {
+			const data = Buffer.alloc(4);
+			data.writeUInt32BE(version);
+			return crypto.createHmac('sha256', macKey).update(data).digest('base64');
+		}
+		await provider.removeFile(`${vaultDir}/vault.cryptomator`);
+		await provider.writeFile(`${vaultDir}/masterkey.cryptomator`, JSON.stringify({...mk, version: 7, versionMac: signVersion(6)}));
+		await expect(Vault.open(provider, vaultDir, '12341234', 'encTest16')).rejects.toThrowError(InvalidSignatureError);
+		await provider.writeFile(`${vaultDir}/masterkey.cryptomator`, JSON.stringify({...mk, version: 6, versionMac: signVersion(6)}));
+		await expect(Vault.open(provider, vaultDir, '12341234', 'encTest16')).rejects.toThrowError(UnsupportedFormatError);
+		const legacyMk = JSON.stringify({...mk, version: 7, versionMac: signVersion(7)});
+		await provider.writeFile(`${vaultDir}/masterkey.cryptomator`, legacyMk);
+
+		const legacy = await Vault.open(provider, vaultDir, '12341234', 'encTest16');
+		expect(legacy.vaultSettings.format).toBe(7);
+		const file = (await legacy.listItems('' as DirID)).find(i => i.decryptedName === 'Legacy.txt') as EncryptedFile;
+		await expect(file.decryptAsString()).resolves.toStrictEqual({title: 'Legacy.txt', content: 'Format 7'});
+
+		// Dry run does not change anything
+		const dryRun = await legacy.migrate({dryRun: true});
+		expect(dryRun.steps).toStrictEqual([MigrationStep.BackupMasterkey, MigrationStep.WriteVaultConfig, MigrationStep.UpdateMasterkey]);
+		await expect(provider.exists(`${vaultDir}/vault.cryptomator`)).resolves.toBe(false);
+		await expect(provider.readFileString(`${vaultDir}/masterkey.cryptomator`)).resolves.toBe(legacyMk);
+
+		// Failing to replace masterkey.cryptomator rolls back vault.cryptomator
+		const failing = Object.create(provider) as LocalStorageProvider;
+		failing.writeFile = async (path: string, content: string | Uint8Array) => {
+			if(path.endsWith('.tmp')) throw new Error('Write failed');
+			await provider.writeFile(path, content);
+		};
+		const legacyFailing = await Vault.open(failing, vaultDir, '12341234', 'encTest16');
+		await expect(legacyFailing.migrate()).rejects.toThrowError('Write failed');
+		await expect(provider.exists(`${vaultDir}/vault.cryptomator`)).resolves.toBe(false);
+		await expect(provider.readFileString(`${vaultDir}/masterkey.cryptomator`)).resolves.toBe(legacyMk);
+		expect(legacyFailing.vaultSettings.format).toBe(7);
+
+		const steps: MigrationStep[] = [];
+		const {backup} = await legacy.migrate({callback: step => steps.push(step)});
+		expect(steps).toStrictEqual(dryRun.steps);
+		await expect(provider.readFileString(backup as string)).resolves.toBe(legacyMk);
+		expect(legacy.vaultSettings.format).toBe(8);
+		const migrated = await Vault.open(provider, vaultDir, '12341234', 'encTest16');
+		expect(migrated.vaultSettings.format).toBe(8);
+		expect(JSON.parse(await provider.readFileString(`${vaultDir}/masterkey.cryptomator`)).versionMac).toBe(signVersion(999));
+		const migratedFile = (await migrated.listItems('' as DirID)).find(i => i.decryptedName === 'Legacy.txt') as EncryptedFile;
+		await expect(migratedFile.decryptAsString()).resolves.toStrictEqual({title: 'Legacy.txt', content: 'Format 7'});
+		await expect(migrated.migrate()).rejects.toThrowError(UnsupportedFormatError);
+	});
+	test('Try reading and writing items by path', async () => {
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'encTest17'
+			}
+		});
+		const longName = 'P'.repeat(300);
+		const b = await randomBuffer(32768 + 100);
+		await expect(v.mkdir('/photos/2024')).rejects.toThrowError(NotFoundError);
+		const created = await v.mkdir('/photos/2024', {recursive: true});
+		await expect(v.mkdir('photos/2024/')).rejects.toThrowError(ExistsError);
+		await expect(v.mkdir('/photos/2024', {recursive: true}).then(d => d.getDirId())).resolves.toBe(await created.getDirId());
+		await v.writeFile('/photos/2024/a.jpg', b);
+		await v.writeFile(`/photos/${longName}`, 'Long');
+		for(let i = 0; i < 10; i++) await v.writeFile(`/photos/2024/${i}.txt`, `${i}`);
+		await v.resolve('/photos/2024').then(d => (d as EncryptedDir).createSymlink('link', 'a.jpg'));
+
+		const decryptName = jest.spyOn(v, 'decryptFileName');
+		await expect(v.readFile('/photos/./2024/../2024/a.jpg').then(c => Buffer.compare(c, b))).resolves.toBe(0);
+		await expect(v.readFile(`photos/${longName}`).then(c => new TextDecoder().decode(c))).resolves.toBe('Long');
+		await expect(v.stat('/photos/2024/a.jpg')).resolves.toMatchObject({type: 'f', name: 'a.jpg', size: b.byteLength});
+		await expect(v.stat('/photos/2024')).resolves.toMatchObject({type: 'd', name: '2024', size: null});
+		await expect(v.stat('/photos/2024/link')).resolves.toMatchObject({type: 's', name: 'link'});
+		await expect(v.stat('/')).resolves.toMatchObject({type: 'd', name: ''});
+		expect(decryptName).not.toHaveBeenCalled();
+		decryptName.mockRestore();
+
+		await expect(v.resolve('/photos/2023')).rejects.toThrowError(NotFoundError);
+		await expect(v.resolve('/photos/2024/a.jpg/b')).rejects.toThrowError(NotFoundError);
+		await expect(v.readFile('/photos')).rejects.toThrowError(ItemTypeError);
+		await expect(v.writeFile('/photos/2024', 'Not a file')).rejects.toThrowError(ItemTypeError);
+		await expect(v.writeFile('/videos/a.mp4', 'No parent')).rejects.toThrowError(NotFoundError);
+
+		await v.writeFile('/photos/2024/a.jpg', 'Overwritten');
+		await expect(v.readFile('/photos/2024/a.jpg').then(c => new TextDecoder().decode(c))).resolves.toBe('Overwritten');
+		await v.remove('/photos/2024/a.jpg');
+		await expect(v.resolve('/photos/2024/a.jpg')).rejects.toThrowError(NotFoundError);
+		await v.remove(`/photos/${longName}`);
+		await v.remove('/photos');
+		await expect(v.listItems('' as DirID)).resolves.toHaveLength(0);
+		await expect(v.remove('/')).rejects.toThrowError(RangeError);
+	});
 	test('Create a random tree within a vault', async () => {
 		const sample = await TargetFS.create(provider, dir, 3, 32);
 		await expect(sample.verify()).resolves.toBe('Identical');
@@ -0,0 +1,59 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, test } from '@jest/globals';
+import { Vault } from '../src/Vault';
+import { IndexedDBProvider } from '../src/providers/IndexedDBProvider';
+import { ExistsError, ItemTypeError, NotFoundError } from '../src/Errors';
+
+describe('Test IndexedDB data provider', () => {
+	test('Try basic file system operations', async () => {
+		const provider = await IndexedDBProvider.open('basicTest');
+		const f = async () => {
+			await provider.createDir('/a/b/c', true);
+			await expect(provider.createDir('/a/b')).rejects.toThrowError(ExistsError);
+			await expect(provider.createDir('/x/y')).rejects.toThrowError(NotFoundError);
+			await provider.writeFile('/a/b/file.txt', 'Hello world');
+			await expect(provider.writeFile('/missing/file.txt', 'Hello')).rejects.toThrowError(NotFoundError);
+			await expect(provider.writeFile('/a/b', 'Hello')).rejects.toThrowError(ItemTypeError);
+			if(await provider.readFileString('/a/b/file.txt') !== 'Hello world') return false;
+			if(Buffer.from(await provider.readFileRange('/a/b/file.txt', 6, 100)).toString() !== 'world') return false;
+
+			const items = await provider.listItems('/a/b');
+			if(items.length !== 2) return false;
+			const file = items.find(i => i.name === 'file.txt');
+			if(!file || file.type !== 'f' || file.size !== 11 || file.fullName !== '/a/b/file.txt') return false;
+
+			await provider.rename('/a/b/file.txt', '/a/renamed.txt');
+			if(await provider.exists('/a/b/file.txt') || !await provider.exists('/a/renamed.txt')) return false;
+			await expect(provider.move('/a', '/a/b/c/inside')).rejects.toThrowError(RangeError);
+			await provider.writeFile('/a/b/c/other.txt', 'Other');
+			await expect(provider.move('/a/b/c', '/a/b')).rejects.toThrowError(ExistsError);
+			await provider.move('/a/b/c', '/moved');
+			if(await provider.readFileString('/moved/other.txt') !== 'Other' || await provider.exists('/a/b/c/other.txt')) return false;
+			await expect(provider.removeFile('/moved')).rejects.toThrowError(ItemTypeError);
+			await provider.removeDir('/a');
+			if(await provider.stat('/a') !== null || await provider.exists('/a/renamed.txt')) return false;
+			return (await provider.listItems('/')).map(i => i.name).join() === 'moved';
+		}
+		await expect(f()).resolves.toBe(true);
+		provider.close();
+	});
+	test('Try using a vault in IndexedDB, and reopening the database', async () => {
+		const provider = await IndexedDBProvider.open('vaultTest');
+		await Vault.create(provider, '/', '12341234', {
+			create: {
+				name: 'idbTest'
+			}
+		});
+		const v = await Vault.open(provider, '/idbTest', '12341234', 'idbTest');
+		await v.mkdir('/Folder');
+		await v.writeFile('/Folder/File.txt', 'Hello');
+		provider.close();
+
+		const reopened = await IndexedDBProvider.open('vaultTest');
+		const v2 = await Vault.open(reopened, '/idbTest', '12341234', 'idbTest');
+		await expect(v2.readFile('/Folder/File.txt').then(c => new TextDecoder().decode(c))).resolves.toBe('Hello');
+		await v2.remove('/Folder');
+		await expect(v2.stat('/Folder')).rejects.toThrowError(NotFoundError);
+		reopened.close();
+	});
+});
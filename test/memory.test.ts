@@ -0,0 +1,73 @@
+import { describe, expect, test } from '@jest/globals';
+import { Vault } from '../src/Vault';
+import { InMemoryProvider } from '../src/providers/InMemoryProvider';
+import { EncryptedFile } from '../src/encrypted/EncryptedFile';
+import { EncryptedDir } from '../src/encrypted/EncryptedDir';
+import { DirID } from '../src/types';
+import { ExistsError, ItemTypeError, NotFoundError } from '../src/Errors';
+
+describe('Test in-memory data provider', () => {
+	test('Try basic file system operations', async () => {
+		const provider = new InMemoryProvider();
+		const f = async () => {
+			await provider.createDir('/a/b/c', true);
+			await expect(provider.createDir('/a/b')).rejects.toThrowError(ExistsError);
+			await expect(provider.createDir('/x/y')).rejects.toThrowError(NotFoundError);
+			await provider.writeFile('/a/b/file.txt', 'Hello');
+			await expect(provider.writeFile('/missing/file.txt', 'Hello')).rejects.toThrowError(NotFoundError);
+			await expect(provider.writeFile('/a/b', 'Hello')).rejects.toThrowError(ItemTypeError);
+			if(await provider.readFileString('/a/b/file.txt') !== 'Hello') return false;
+			const items = await provider.listItems('/a/b');
+			if(items.length !== 2) return false;
+			const file = items.find(i => i.name === 'file.txt');
+			if(!file || file.type !== 'f' || file.size !== 5 || file.fullName !== '/a/b/file.txt') return false;
+
+			const before = file.lastMod.getTime();
+			await new Promise(resolve => setTimeout(resolve, 5));
+			await provider.writeFile('/a/b/file.txt', 'Hello again');
+			const stat = await provider.stat('/a/b/file.txt');
+			if(!stat || stat.lastMod.getTime() <= before || stat.size !== 11) return false;
+			if(Buffer.from(await provider.readFileRange('/a/b/file.txt', 6, 100)).toString() !== 'again') return false;
+
+			await provider.rename('/a/b/file.txt', '/a/renamed.txt');
+			if(await provider.exists('/a/b/file.txt') || !await provider.exists('/a/renamed.txt')) return false;
+			await expect(provider.move('/a', '/a/b/c/inside')).rejects.toThrowError(RangeError);
+			await provider.writeFile('/a/b/c/other.txt', 'Other');
+			await expect(provider.move('/a/b/c', '/a/b')).rejects.toThrowError(ExistsError);
+			await provider.move('/a/b/c', '/moved');
+			if(await provider.readFileString('/moved/other.txt') !== 'Other') return false;
+			await expect(provider.removeFile('/moved')).rejects.toThrowError(ItemTypeError);
+			await provider.removeDir('/a');
+			if(await provider.exists('/a/renamed.txt') || await provider.stat('/a') !== null) return false;
+			return (await provider.listItems('/')).map(i => i.name).join() === 'moved';
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Try using a vault in memory, with snapshots and exported trees', async () => {
+		const provider = new InMemoryProvider();
+		const v = await Vault.create(provider, '/vaults', '12341234', {
+			create: {
+				name: 'memTest'
+			}
+		});
+		const root = await v.getRootDir();
+		const folder = await root.createDirectory('Folder');
+		await folder.createFile('File.txt', 'Before');
+		const snapshot = provider.snapshot();
+		await v.writeFile('/Folder/File.txt', 'After');
+		await v.writeFile('/Folder/New.txt', 'New');
+		await expect(v.readFile('/Folder/File.txt').then(c => new TextDecoder().decode(c))).resolves.toBe('After');
+
+		provider.restore(snapshot);
+		await expect(v.readFile('/Folder/File.txt').then(c => new TextDecoder().decode(c))).resolves.toBe('Before');
+		await expect(v.resolve('/Folder/New.txt')).rejects.toThrowError(NotFoundError);
+
+		const imported = new InMemoryProvider();
+		imported.importJSON(provider.exportJSON());
+		const reopened = await Vault.open(imported, '/vaults/memTest', '12341234', 'memTest');
+		const items = await reopened.listItems(await (await reopened.resolve('/Folder') as EncryptedDir).getDirId());
+		const file = items.find(i => i.decryptedName === 'File.txt') as EncryptedFile;
+		await expect(file.decryptAsString()).resolves.toStrictEqual({title: 'File.txt', content: 'Before'});
+		await expect(reopened.listItems('' as DirID)).resolves.toHaveLength(1);
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test } from '@jest/globals';
+import { Vault } from '../src/Vault';
+import { InMemoryProvider } from '../src/providers/InMemoryProvider';
+import { intercept, logging, ProviderLogEntry, rateLimit, retry, timeout, withMiddleware } from '../src/Middleware';
+import { HttpError, NotFoundError, TimeoutError } from '../src/Errors';
+
+/**
+ * Middleware that makes every nth call fail with 503, and streams fail after their first chunk every other time
+ */
+function flaky(every: number){
+	let calls = 0;
+	let streams = 0;
+	return intercept({
+		call: async (call, run) => {
+			if(++calls % every === 0) throw new HttpError(503, call.method, call.args[0] as string);
+			return await run();
+		},
+		stream: async function*(call, open){
+			const fail = streams++ % 2 === 0;
+			let first = true;
+			for await (const chunk of open()){
+				yield chunk;
+				if(fail && first) throw new TypeError('fetch failed');
+				first = false;
+			}
+		}
+	});
+}
+
+describe('Test provider middleware', () => {
+	test('Try retrying calls to a flaky provider', async () => {
+		const memory = new InMemoryProvider();
+		const retries: string[] = [];
+		const provider = withMiddleware(memory, retry({delay: 1, onRetry: (call) => retries.push(call.method)}), flaky(3));
+		const v = await Vault.create(provider, '/', '12341234', {
+			create: {
+				name: 'flakyTest'
+			}
+		});
+		await v.mkdir('/Folder/Sub', {recursive: true});
+		const content = new Uint8Array(200000).map((_, i) => i % 251);
+		await v.writeFile('/Folder/Sub/File.bin', content);
+		await expect(v.readFile('/Folder/Sub/File.bin')).resolves.toEqual(content);
+		// Streams continue where they failed
+		const file = await v.resolve('/Folder/Sub/File.bin');
+		if(file.type !== 'f') throw new Error('Not a file');
+		const chunks: Uint8Array[] = [];
+		for await (const chunk of file.decryptContentStream()) chunks.push(chunk);
+		expect(new Uint8Array(Buffer.concat(chunks))).toEqual(content);
+		await v.remove('/Folder');
+		expect(retries.length).toBeGreaterThan(0);
+		expect(retries).toContain('readFileStream');
+
+		// Errors that are not temporary are thrown right away
+		const failing = withMiddleware(memory, retry({delay: 1}), intercept({
+			call: async (call) => {
+				throw new HttpError(403, call.method, call.args[0] as string);
+			}
+		}));
+		await expect(failing.readFile('/flakyTest/masterkey.cryptomator')).rejects.toThrowError(HttpError);
+		const bugs: string[] = [];
+		const buggy = withMiddleware(memory, retry({delay: 1, onRetry: (call) => bugs.push(call.method)}), intercept({
+			call: async () => {
+				throw new TypeError('run is not a function');
+			}
+		}));
+		await expect(buggy.exists('/missing')).rejects.toThrowError(TypeError);
+		expect(bugs).toEqual([]);
+		const attempts: number[] = [];
+		const missing = withMiddleware(memory, retry({delay: 1, errors: [NotFoundError], retries: 2, onRetry: (_, __, attempt) => attempts.push(attempt)}));
+		await expect(missing.readFile('/missing')).rejects.toThrowError(NotFoundError);
+		expect(attempts).toEqual([1, 2]);
+	});
+	test('Try timeouts, logging and rate limits', async () => {
+		const memory = new InMemoryProvider();
+		await memory.writeFile('/file.txt', 'Hello');
+		const slow = intercept({
+			call: async (call, run) => {
+				if(call.args[0] === '/slow.txt') await new Promise(resolve => setTimeout(resolve, 200));
+				return await run();
+			}
+		});
+		const entries: ProviderLogEntry[] = [];
+		const provider = withMiddleware(memory, logging(e => entries.push(e)), retry({delay: 1, retries: 1}), timeout(50), slow);
+		await expect(provider.readFileString('/file.txt')).resolves.toBe('Hello');
+		await expect(provider.readFileString('/slow.txt')).rejects.toThrowError(TimeoutError);
+		await provider.rename('/file.txt', '/renamed.txt');
+		expect(entries.map(e => `${e.id} ${e.phase} ${e.method} ${e.path}`)).toEqual([
+			'0 start readFileString /file.txt',
+			'0 end readFileString /file.txt',
+			'1 start readFileString /slow.txt',
+			'1 end readFileString /slow.txt',
+			'2 start rename /file.txt',
+			'2 end rename /file.txt'
+		]);
+		expect(entries[3].error).toBeInstanceOf(TimeoutError);
+		expect(entries[5].newPath).toBe('/renamed.txt');
+		expect(entries[5].duration).toBeGreaterThanOrEqual(0);
+
+		// 2 calls right away, then 1 every 50 ms
+		const limited = withMiddleware(memory, rateLimit({rate: 20, burst: 2}));
+		const start = Date.now();
+		await Promise.all(Array.from({length: 6}, () => limited.exists('/renamed.txt')));
+		expect(Date.now() - start).toBeGreaterThanOrEqual(180);
+		expect(() => rateLimit({rate: 0})).toThrowError(RangeError);
+		expect(() => rateLimit({rate: 1, burst: 0.5})).toThrowError(RangeError);
+		// A rate below 1 still lets the first call through
+		await expect(withMiddleware(memory, rateLimit({rate: 0.5})).exists('/renamed.txt')).resolves.toBe(true);
+	});
+});
@@ -5,6 +5,14 @@ import { LocalStorageProvider } from '../src/providers/LocalStorageProvider';
 import { TargetFS } from './TargetFS';
 import { DirID } from '../src/types';
 import { EncryptedDir } from '../src/encrypted/EncryptedDir';
+import { HealthFindingType } from '../src/HealthCheck';
+import { ConflictError, ExistsError, InvalidSignatureError, ItemTypeError } from '../src/Errors';
+import { InMemoryProvider } from '../src/providers/InMemoryProvider';
+import { CopyProgress } from '../src/Copy';
+import { intercept, withMiddleware } from '../src/Middleware';
+import { EncryptedItem } from '../src/encrypted/EncryptedItemBase';
+import { SyncConflictMode } from '../src/SyncConflicts';
+import { CacheKind, VaultCache } from '../src/Cache';
 
 /**
  * Gets all directories of the vault
@@ -88,4 +96,516 @@ describe('Test modifying the vault', () => {
 		}
 		await expect(f()).resolves.toBe('Identical');
 	});
+	test('Create a vault, damage it, and repair it with health check', async () => {
+		const v = await Vault.create(provider, dir, '12341234', {
+			create: {
+				name: 'healthTest'
+			}
+		});
+		const f = async () => {
+			const root = await v.getRootDir();
+			const orphan = await root.createDirectory('Orphan');
+			await orphan.createDirectory('Child');
+			await orphan.createFile('File.txt', 'Inside orphaned folder');
+			const missing = await root.createDirectory('Missing');
+			const longFile = await root.createFile('L'.repeat(300), 'Long name');
+			const corrupt = await root.createFile('Corrupt.txt', 'A'.repeat(1000));
+			await root.createFile('Healthy.txt', 'Healthy');
+			await provider.removeDir(orphan.fullName);
+			await provider.removeDir(await v.getDir(await missing.getDirId()));
+			await provider.removeFile(`${longFile.fullName}/name.c9s`);
+			const data = await provider.readFile(corrupt.fullName);
+			data[200] ^= 1;
+			await provider.writeFile(corrupt.fullName, data);
+			await provider.writeFile(`${await v.getRootDirPath()}/AAAAAAAAAAAAAAAAAAAAAAAA.c9r`, 'Not a real file');
+
+			const findings = await v.healthCheck({checkContents: true});
+			const types = findings.map(f => f.type).sort();
+			const expected = [
+				HealthFindingType.OrphanDir,
+				HealthFindingType.MissingDir,
+				HealthFindingType.MissingName,
+				HealthFindingType.UndecryptableName,
+				HealthFindingType.CorruptFile
+			].sort();
+			if(JSON.stringify(types) !== JSON.stringify(expected)) throw new Error(`Unexpected findings: ${types}`);
+			const corruptFinding = findings.find(f => f.type === HealthFindingType.CorruptFile);
+			if(!(corruptFinding?.type === HealthFindingType.CorruptFile && corruptFinding.error instanceof InvalidSignatureError)) return false;
+			for(const finding of findings) if(finding.fix) await finding.fix();
+
+			const remaining = (await v.healthCheck({checkContents: true})).map(f => f.type).sort();
+			if(JSON.stringify(remaining) !== JSON.stringify([HealthFindingType.UndecryptableName, HealthFindingType.CorruptFile].sort())) return false;
+			await provider.removeFile(`${await v.getRootDirPath()}/AAAAAAAAAAAAAAAAAAAAAAAA.c9r`);
+			const recovered = (await root.listItems()).find(i => i.decryptedName === 'Recovered');
+			if(!recovered || recovered.type !== 'd') return false;
+			const recoveredItems = await recovered.listItems();
+			if(recoveredItems.length !== 1 || recoveredItems[0].type !== 'd') return false;
+			const orphanItems = await recoveredItems[0].listItems();
+			return orphanItems.map(i => i.decryptedName).sort().join(',') === 'Child,File.txt';
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Delete nested folders, and make sure the health check finds nothing left of them', async () => {
+		const memory = new InMemoryProvider();
+		const v = await Vault.create(memory, '/', '12341234', {
+			create: {
+				name: 'deleteTest'
+			}
+		});
+		const f = async () => {
+			await v.mkdir('/a/b', {recursive: true});
+			await v.writeFile('/a/b/x.txt', 'Deleted');
+			const a = await v.resolve('/a');
+			if(a.type !== 'd') return false;
+			const folders = [await v.getDir(await a.getDirId()), await v.getDir(await (await v.resolve('/a/b') as EncryptedDir).getDirId())];
+			await a.deleteDir();
+			if(await memory.exists(folders[0]) || await memory.exists(folders[1])) return false;
+			return (await v.healthCheck()).length === 0 && (await v.getRootDir().then(r => r.listItems())).length === 0;
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Create vaults, and copy files and folders within and between them', async () => {
+		const memory = new InMemoryProvider();
+		const v = await Vault.create(memory, '/', '12341234', {
+			create: {
+				name: 'copySource'
+			},
+			// Content is piped from the provider into itself, one call at a time
+			queryOpts: {
+				concurrency: 1
+			}
+		});
+		const other = await Vault.create(memory, '/', '43214321', {
+			create: {
+				name: 'copyTarget'
+			},
+			vault: {
+				cipherCombo: 'SIV_GCM'
+			}
+		});
+		const content = new Uint8Array(100000).map((_, i) => i % 251);
+		const longName = 'L'.repeat(300);
+		await v.mkdir('/Folder/Sub', {recursive: true});
+		await v.writeFile('/Folder/File.bin', content);
+		await v.writeFile(`/Folder/Sub/${longName}`, 'Long');
+		await (await v.resolve('/Folder') as EncryptedDir).createSymlink('Link', '../Target');
+		const f = async () => {
+			const folder = await v.resolve('/Folder') as EncryptedDir;
+			const progress: CopyProgress[] = [];
+			const copy = await v.copy(folder, '' as DirID, 'Copy', p => progress.push(p));
+			if(copy.type !== 'd' || await copy.getDirId() === await folder.getDirId()) return false;
+			const last = progress[progress.length - 1];
+			if(last.copied !== 5 || last.total !== 5 || last.bytes === 0) return false;
+			if(new TextDecoder().decode(await v.readFile(`/Copy/Sub/${longName}`)) !== 'Long') return false;
+			const link = await v.resolve('/Copy/Link');
+			if(link.type !== 's' || await link.getTarget() !== '../Target') return false;
+			// Content is copied as it is within a vault
+			const original = await v.resolve('/Folder/File.bin');
+			const copied = await v.resolve('/Copy/File.bin');
+			if(original.type !== 'f' || copied.type !== 'f') return false;
+			if(Buffer.compare(await original.readEncryptedFile(), await copied.readEncryptedFile()) !== 0) return false;
+
+			// Into another vault, content is encrypted again with the keys of that vault
+			await other.copy(original, '' as DirID, 'Renamed.bin');
+			if(Buffer.compare(await other.readFile('/Renamed.bin'), content) !== 0) return false;
+			await other.copy(folder, '' as DirID);
+			if(Buffer.compare(await other.readFile('/Folder/File.bin'), content) !== 0) return false;
+			return (await other.stat(`/Folder/Sub/${longName}`)).size === 4;
+		}
+		await expect(f()).resolves.toBe(true);
+		const folder = await v.resolve('/Folder') as EncryptedDir;
+		await expect(v.copy(folder, '' as DirID)).rejects.toThrowError(ExistsError);
+		const sub = await v.resolve('/Folder/Sub') as EncryptedDir;
+		await expect(v.copy(folder, await sub.getDirId(), 'Inside')).rejects.toThrowError(RangeError);
+	});
+	test('Rename and move items between shortened and unshortened names', async () => {
+		const memory = new InMemoryProvider();
+		let failNames = false;
+		// Writing name.c9s fails while failNames is set
+		const failing = intercept({
+			call: async (call, run) => {
+				if(failNames && call.method === 'writeFile' && (call.args[0] as string).endsWith('/name.c9s')) throw new Error('Write failed');
+				return await run();
+			}
+		});
+		const v = await Vault.create(withMiddleware(memory, failing), '/', '12341234', {
+			create: {
+				name: 'shorteningTest'
+			}
+		});
+		const long = (c: string) => c.repeat(300);
+		const root = await v.getRootDir();
+		const target = await root.createDirectory('Target');
+		const items: EncryptedItem[] = [
+			await root.createFile('file', 'Content'),
+			await root.createDirectory('dir'),
+			await root.createSymlink('link', '/file')
+		];
+		await (items[1] as EncryptedDir).createFile('Inner.txt', 'Inner');
+		/**
+		 * Check that the object matches what is stored, and nothing is left behind
+		 */
+		const check = async (item: EncryptedItem, name: string, parent: DirID) => {
+			const {path, shortened} = await v.getItemPath(name, parent);
+			if(item.fullName !== path || item.shortened !== shortened || item.decryptedName !== name || item.parentId !== parent) return false;
+			const listed = (await v.listItems(parent)).find(i => i.decryptedName === name);
+			if(!listed || listed.type !== item.type || listed.fullName !== path) return false;
+			if(!shortened && item.type !== 'f' && await memory.exists(`${path}/name.c9s`)) return false;
+			if(item.type === 'f') return new TextDecoder().decode(await item.decryptContent()) === 'Content';
+			if(item.type === 'd') return (await item.listItems()).length === 1;
+			return await item.getTarget() === '/file';
+		};
+		const f = async () => {
+			for(const item of items){
+				const targetId = await target.getDirId();
+				const short = item.decryptedName;
+				// Unshortened to shortened, shortened to shortened, shortened to unshortened
+				await item.rename(long(short));
+				if(!await check(item, long(short), '' as DirID)) return false;
+				await item.move(targetId);
+				if(!await check(item, long(short), targetId)) return false;
+				await item.rename(long(short + 'x'));
+				if(!await check(item, long(short + 'x'), targetId)) return false;
+				await item.rename(short);
+				if(!await check(item, short, targetId)) return false;
+				await item.move('' as DirID);
+				if(!await check(item, short, '' as DirID)) return false;
+
+				// Nothing changes if a step fails
+				failNames = true;
+				await expect(item.rename(long(short))).rejects.toThrowError('Write failed');
+				failNames = false;
+				if(!await check(item, short, '' as DirID)) return false;
+			}
+			return (await v.listItems('' as DirID)).length === 4;
+		}
+		await expect(f()).resolves.toBe(true);
+		await expect(root.rename('Root')).rejects.toThrowError();
+	});
+	test('Make sure folders cannot be moved into themselves', async () => {
+		let listed = 0;
+		const counting = intercept({
+			call: async (call, run) => {
+				if(call.method === 'listItems') listed++;
+				return await run();
+			}
+		});
+		const v = await Vault.create(withMiddleware(new InMemoryProvider(), counting), '/', '12341234', {
+			create: {
+				name: 'moveIntoTest'
+			}
+		});
+		const f = async () => {
+			const a = await v.mkdir('/a');
+			const b = await v.mkdir('/a/b');
+			const c = await v.mkdir('/a/b/c');
+			await expect(a.move(await c.getDirId())).rejects.toThrowError(RangeError);
+			await expect(a.move(await b.getDirId())).rejects.toThrowError(RangeError);
+			await expect(a.move(await a.getDirId())).rejects.toThrowError(RangeError);
+			// Moving into a sibling still works, and only the ancestors of the target are looked up, not everything in the moved folder
+			const d = await v.mkdir('/d/e', {recursive: true});
+			for(let i = 0; i < 10; i++) await v.mkdir(`/a/b/c/${i}`);
+			listed = 0;
+			await b.move(await d.getDirId());
+			if(listed > 1) return false;
+			// An ID that has never been seen is still found by listing what is in the folder
+			const fresh = await Vault.open(v.provider, '/moveIntoTest', '12341234', 'moveIntoTest');
+			const moved = await fresh.resolve('/d/e/b') as EncryptedDir;
+			await expect(moved.move(await (await v.resolve('/d/e/b/c/3') as EncryptedDir).getDirId())).rejects.toThrowError(RangeError);
+			return (await v.getRootDir().then(r => r.listItems())).map(i => i.decryptedName).sort().join(',') === 'a,d'
+				&& (await v.stat('/d/e/b/c')).type === 'd';
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Try conflict policies when creating, renaming, moving and copying items', async () => {
+		const v = await Vault.create(new InMemoryProvider(), '/', '12341234', {
+			create: {
+				name: 'conflictTest'
+			}
+		});
+		const root = await v.getRootDir();
+		const docs = await root.createDirectory('Docs');
+		await docs.createFile('Inner.txt', 'Inner');
+		await root.createFile('report.pdf', 'First');
+		const names = async () => (await v.listItems('' as DirID)).map(i => i.decryptedName).sort().join();
+		const f = async () => {
+			// Nothing is overwritten unless asked to
+			await expect(root.createFile('report.pdf', 'Second')).rejects.toThrowError(ConflictError);
+			await root.createFile('report.pdf', 'Second', 'overwrite');
+			if(new TextDecoder().decode(await v.readFile('/report.pdf')) !== 'Second') return false;
+			await expect(root.createFile('report.pdf', 'Third', 'fail')).rejects.toThrowError(ConflictError);
+			await expect(root.createDirectory('Docs')).rejects.toThrowError(ConflictError);
+			const error = await root.createSymlink('Docs', '/').catch(e => e);
+			if(!(error instanceof ConflictError) || error.existing.type !== 'd' || error.existing.fullName !== docs.fullName) return false;
+
+			// Items of another type are never overwritten or skipped
+			await expect(root.createFile('Docs', 'File', 'overwrite')).rejects.toThrowError(ConflictError);
+			await expect(root.createDirectory('report.pdf', undefined, 'skip')).rejects.toThrowError(ConflictError);
+			await expect(v.writeFile('/Docs', 'File')).rejects.toThrowError(ItemTypeError);
+
+			const skipped = await root.createDirectory('Docs', undefined, 'skip');
+			if(await skipped.getDirId() !== await docs.getDirId()) return false;
+			const suffixed = await root.createFile('report.pdf', 'Third', 'rename-with-suffix');
+			const suffixedDir = await root.createDirectory('Docs', undefined, 'rename-with-suffix');
+			await root.createFile('Docs', 'File', 'rename-with-suffix');
+			if(suffixed.decryptedName !== 'report (1).pdf' || suffixedDir.decryptedName !== 'Docs (1)') return false;
+			if(await names() !== 'Docs,Docs (1),Docs (2),report (1).pdf,report.pdf') return false;
+
+			// Renaming and moving
+			await expect(suffixed.rename('report.pdf')).rejects.toThrowError(ConflictError);
+			await suffixed.rename('report.pdf', 'skip');
+			if(suffixed.decryptedName !== 'report (1).pdf') return false;
+			await suffixed.rename('report.pdf', 'overwrite');
+			if(new TextDecoder().decode(await v.readFile('/report.pdf')) !== 'Third' || await names() !== 'Docs,Docs (1),Docs (2),report.pdf') return false;
+			await suffixedDir.createFile('Inner.txt', 'Other');
+			const inner = await v.resolve('/Docs (1)/Inner.txt');
+			await expect(inner.move(await docs.getDirId())).rejects.toThrowError(ConflictError);
+			await inner.move(await docs.getDirId(), 'rename-with-suffix');
+			if(inner.decryptedName !== 'Inner (1).txt' || inner.parentId !== await docs.getDirId()) return false;
+			await suffixedDir.move(await docs.getDirId());
+			if((await v.stat('/Docs/Docs (1)')).type !== 'd') return false;
+
+			// Copying
+			await expect(v.copy(docs, '' as DirID, 'Docs (2)')).rejects.toThrowError(ConflictError);
+			const copy = await v.copy(docs, '' as DirID, undefined, undefined, 'rename-with-suffix');
+			if(copy.decryptedName !== 'Docs (1)') return false;
+			await v.writeFile('/Docs (1)/Inner.txt', 'Changed');
+			await v.copy(docs, '' as DirID, 'Docs (1)', undefined, 'overwrite');
+			return new TextDecoder().decode(await v.readFile('/Docs (1)/Inner.txt')) === 'Inner';
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Make sure overwritten items are kept when their replacement cannot be written', async () => {
+		let failing: string | null = null;
+		// Calls of the failing method throw, after the folders of new items have been created
+		const failure = intercept({
+			call: async (call, run) => {
+				if(call.method === failing) throw new Error('Write failed');
+				return await run();
+			}
+		});
+		const v = await Vault.create(withMiddleware(new InMemoryProvider(), failure), '/', '12341234', {
+			create: {
+				name: 'overwriteTest'
+			}
+		});
+		const long = 'long'.repeat(100);
+		const root = await v.getRootDir();
+		const docs = await root.createDirectory('Docs');
+		await docs.createFile('Inner.txt', 'Inner');
+		await root.createFile('report.pdf', 'First');
+		await root.createFile(long, 'Long');
+		await root.createSymlink('link', '/Docs');
+		const other = await root.createFile('other.pdf', 'Other');
+		const names = async () => (await v.listItems('' as DirID)).map(i => i.decryptedName).sort().join();
+		const f = async () => {
+			failing = 'writeFile';
+			await expect(root.createFile('report.pdf', 'Second', 'overwrite')).rejects.toThrowError('Write failed');
+			await expect(root.createFile(long, 'Second', 'overwrite')).rejects.toThrowError('Write failed');
+			await expect(root.createDirectory('Docs', undefined, 'overwrite')).rejects.toThrowError('Write failed');
+			await expect(root.createSymlink('link', '/', 'overwrite')).rejects.toThrowError('Write failed');
+			failing = 'move';
+			await expect(other.rename('report.pdf', 'overwrite')).rejects.toThrowError('Write failed');
+			failing = null;
+			if(new TextDecoder().decode(await v.readFile('/report.pdf')) !== 'First') return false;
+			if(new TextDecoder().decode(await v.readFile('/' + long)) !== 'Long') return false;
+			if(new TextDecoder().decode(await v.readFile('/Docs/Inner.txt')) !== 'Inner') return false;
+			const link = await v.resolve('/link');
+			if(link.type !== 's' || await link.getTarget() !== '/Docs') return false;
+			if(await names() !== `Docs,link,${long},other.pdf,report.pdf`) return false;
+
+			// A directory cannot be overwritten by something in it, as it would be deleted along with it
+			const sub = await docs.createDirectory('Sub');
+			await expect(v.copy(sub, '' as DirID, 'Docs', undefined, 'overwrite')).rejects.toThrowError(RangeError);
+			if((await v.stat('/Docs/Sub')).type !== 'd') return false;
+
+			// A copied directory only replaces the old one once everything in it has been copied
+			const source = await root.createDirectory('Source');
+			await source.createDirectory('Empty');
+			await source.createFile('Inner.txt', 'New');
+			failing = 'writeFileStream';
+			await expect(v.copy(source, '' as DirID, 'Docs', undefined, 'overwrite')).rejects.toThrowError('Write failed');
+			failing = null;
+			if(new TextDecoder().decode(await v.readFile('/Docs/Inner.txt')) !== 'Inner' || (await v.stat('/Docs/Sub')).type !== 'd') return false;
+			await v.copy(source, '' as DirID, 'Docs', undefined, 'overwrite');
+			if(new TextDecoder().decode(await v.readFile('/Docs/Inner.txt')) !== 'New' || await v.resolve('/Docs/Sub').then(() => true, () => false)) return false;
+
+			// Once writing works again, the items are replaced without anything left behind
+			await root.createFile('report.pdf', 'Second', 'overwrite');
+			await root.createFile(long, 'Second', 'overwrite');
+			await root.createDirectory('Docs', undefined, 'overwrite');
+			await other.rename('report.pdf', 'overwrite');
+			return new TextDecoder().decode(await v.readFile('/report.pdf')) === 'Other'
+				&& new TextDecoder().decode(await v.readFile('/' + long)) === 'Second'
+				&& (await v.listItems(await (await v.resolve('/Docs') as EncryptedDir).getDirId())).length === 0
+				&& await names() === `Docs,Source,link,${long},report.pdf`
+				&& (await v.healthCheck()).length === 0;
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Show and rename items that a sync client has renamed because of conflicts', async () => {
+		const memory = new InMemoryProvider();
+		const v = await Vault.create(memory, '/', '12341234', {
+			create: {
+				name: 'syncConflictTest'
+			}
+		});
+		const root = await v.getRootDir();
+		const file = await root.createFile('report.pdf', 'Original');
+		const docs = await root.createDirectory('Docs');
+		const other = await root.createDirectory('Other');
+		await other.createFile('Inner.txt', 'Inner');
+		const long = await root.createFile('L'.repeat(300), 'Long');
+		const rootDir = await v.getDir('' as DirID);
+		const suffixed = (item: EncryptedItem, suffix: string) => item.fullName.replace(/(\.c9[rs])$/, `${suffix}$1`);
+		// What sync clients leave behind
+		await memory.writeFile(suffixed(file, ' (Conflicted copy 2024-01-01)'), await file.readEncryptedFile());
+		await memory.createDir(suffixed(docs, ' (1)'));
+		await memory.writeFile(`${suffixed(docs, ' (1)')}/dir.c9r`, await docs.getDirId());
+		await memory.createDir(suffixed(docs, ' (2)'));
+		await memory.writeFile(`${suffixed(docs, ' (2)')}/dir.c9r`, await other.getDirId());
+		await memory.createDir(suffixed(long, ' (1)'));
+		await memory.writeFile(`${suffixed(long, ' (1)')}/contents.c9r`, await long.readEncryptedFile());
+		await memory.writeFile(`${suffixed(long, ' (1)')}/name.c9s`, long.name.endsWith('.c9s') ? await memory.readFileString(`${long.fullName}/name.c9s`) : long.name);
+		await memory.writeFile(`${rootDir}/${'A'.repeat(32)}.c9r`, 'Undecryptable');
+		const f = async () => {
+			const invalid: string[] = [];
+			const names = (await v.listItems('' as DirID, {invalid: (item) => invalid.push(item.name)})).map(i => i.decryptedName).sort();
+			if(names.join() !== ['Docs', 'Docs (Conflict 1)', 'L'.repeat(300), `${'L'.repeat(300)} (Conflict 1)`, 'Other', 'report (Conflict 1).pdf', 'report.pdf'].join()) return false;
+			if(invalid.join() !== `${'A'.repeat(32)}.c9r`) return false;
+			// Nothing has been changed in the storage
+			if(!await memory.exists(suffixed(docs, ' (1)'))) return false;
+
+			const renaming = await Vault.open(memory, '/syncConflictTest', '12341234', 'syncConflictTest', {
+				syncConflicts: SyncConflictMode.Rename
+			});
+			const items = await renaming.listItems('' as DirID);
+			if(items.map(i => i.decryptedName).sort().join() !== names.join()) return false;
+			if(new TextDecoder().decode(await renaming.readFile('/report (Conflict 1).pdf')) !== 'Original') return false;
+			if((await renaming.listItems(await (await renaming.resolve('/Docs (Conflict 1)') as EncryptedDir).getDirId())).length !== 1) return false;
+			// The duplicate of Docs is removed, without touching what it points to
+			if(await memory.exists(suffixed(docs, ' (1)')) || !await memory.exists(docs.fullName)) return false;
+			const stored = (await memory.listItems(rootDir)).map(i => i.name);
+			return stored.filter(n => n.includes(' ')).length === 0 && stored.length === 9;
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Look up items by name without listing their directory', async () => {
+		const listed: string[] = [];
+		const counting = intercept({
+			call: async (call, run) => {
+				if(call.method === 'listItems') listed.push(call.args[0] as string);
+				return await run();
+			}
+		});
+		// Without stat, items are told apart by what their folders hold
+		const v = await Vault.create(withMiddleware(Object.assign(new InMemoryProvider(), {stat: undefined}), counting), '/', '12341234', {
+			create: {
+				name: 'lookupTest'
+			}
+		});
+		const long = 'long'.repeat(100);
+		const root = await v.getRootDir();
+		await root.createFile('file.txt', 'File');
+		await root.createFile(long, 'Long');
+		await root.createDirectory('Dir');
+		await root.createSymlink('link', '/Dir');
+		const f = async () => {
+			listed.length = 0;
+			const types = await Promise.all(['file.txt', long, 'Dir', 'link'].map(async n => (await v.lookup(n, '' as DirID))?.type));
+			if(types.join() !== 'f,f,d,s') return false;
+			if(await v.lookup('missing', '' as DirID) !== null) return false;
+			const file = await v.lookup(long, '' as DirID);
+			if(file?.type !== 'f' || new TextDecoder().decode(await file.decrypt().then(r => r.content)) !== 'Long') return false;
+			return !listed.includes(await v.getDir('' as DirID));
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Create a vault with a cache, and make sure it is invalidated', async () => {
+		let queries = 0;
+		const counting = Object.create(provider) as LocalStorageProvider;
+		counting.listItems = async (path: string) => {
+			queries++;
+			return await provider.listItems(path);
+		};
+		counting.readFileString = async (path: string) => {
+			queries++;
+			return await provider.readFileString(path);
+		};
+		const v = await Vault.create(counting, dir, '12341234', {
+			create: {
+				name: 'cacheTest'
+			},
+			cache: {
+				maxEntries: 1000
+			}
+		});
+		const root = await v.getRootDir();
+		const folder = await root.createDirectory('F'.repeat(300));
+		await folder.createFile('File.txt', 'Content');
+		await root.createSymlink('Link', 'Target');
+		const f = async () => {
+			let items = await v.listItems('' as DirID);
+			const listed = items.find(i => i.type === 'd') as EncryptedDir;
+			await v.listItems(await listed.getDirId());
+			queries = 0;
+			// Everything is served from the cache
+			items = await v.listItems('' as DirID);
+			const cachedFolder = items.find(i => i.type === 'd') as EncryptedDir;
+			const files = await v.listItems(await cachedFolder.getDirId());
+			if(queries !== 0 || files.length !== 1) return false;
+
+			// Changes made through the vault invalidate the cache
+			await cachedFolder.createDirectory('Inner');
+			if((await v.listItems(await cachedFolder.getDirId())).length !== 2) return false;
+			await files[0].move('' as DirID);
+			if((await v.listItems(await cachedFolder.getDirId())).length !== 1) return false;
+			if((await v.listItems('' as DirID)).length !== 3) return false;
+			await cachedFolder.deleteDir();
+			if((await v.listItems('' as DirID)).length !== 2) return false;
+
+			// Changes made outside of the vault are only seen after invalidating
+			await provider.removeDir((await v.lookup('Link', '' as DirID))!.fullName);
+			if((await v.listItems('' as DirID)).length !== 2) return false;
+			v.cache.invalidate('' as DirID);
+			if((await v.listItems('' as DirID)).length !== 1) return false;
+			v.cache.clear();
+			queries = 0;
+			await v.listItems('' as DirID);
+			return queries > 0;
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Make sure cached values expire and are evicted', async () => {
+		const cache = new VaultCache({maxEntries: 2, ttl: 50});
+		cache.set(CacheKind.Name, '' as DirID, 'a', 'A');
+		cache.set(CacheKind.Name, '' as DirID, 'b', 'B');
+		expect(cache.get(CacheKind.Name, '' as DirID, 'a')).toBe('A');
+		cache.set(CacheKind.Name, '' as DirID, 'c', 'C');
+		// b has been used least recently
+		expect(cache.get(CacheKind.Name, '' as DirID, 'b')).toBeUndefined();
+		expect(cache.get(CacheKind.Name, '' as DirID, 'a')).toBe('A');
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(cache.get(CacheKind.Name, '' as DirID, 'a')).toBeUndefined();
+		// Only the values of the directory are dropped, except decrypted names
+		const byDir = new VaultCache({maxEntries: 3});
+		byDir.set(CacheKind.Type, 'x' as DirID, 'a', 'd');
+		byDir.set(CacheKind.Name, 'x' as DirID, 'a', 'A');
+		byDir.set(CacheKind.Type, 'y' as DirID, 'a', 'f');
+		byDir.invalidate('x' as DirID);
+		expect(byDir.get(CacheKind.Type, 'x' as DirID, 'a')).toBeUndefined();
+		expect(byDir.get(CacheKind.Name, 'x' as DirID, 'a')).toBe('A');
+		expect(byDir.get(CacheKind.Type, 'y' as DirID, 'a')).toBe('f');
+		byDir.set(CacheKind.Type, 'x' as DirID, 'b', 's');
+		byDir.set(CacheKind.Type, 'x' as DirID, 'c', 'd');
+		// The name has been used least recently, so it is evicted
+		expect(byDir.get(CacheKind.Name, 'x' as DirID, 'a')).toBeUndefined();
+		byDir.invalidate('x' as DirID);
+		expect(byDir.get(CacheKind.Type, 'x' as DirID, 'b')).toBeUndefined();
+		expect(byDir.get(CacheKind.Type, 'x' as DirID, 'c')).toBeUndefined();
+		expect(byDir.get(CacheKind.Type, 'y' as DirID, 'a')).toBe('f');
+		const disabled = new VaultCache();
+		disabled.set(CacheKind.Name, '' as DirID, 'a', 'A');
+		expect(disabled.get(CacheKind.Name, '' as DirID, 'a')).toBeUndefined();
+	});
 });
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { describe, expect, test } from '@jest/globals';
+import { Vault } from '../src/Vault';
+import { OPFSDirectoryHandle, OPFSFileHandle, OPFSProvider } from '../src/providers/OPFSProvider';
+import { ExistsError, ItemTypeError, NotFoundError } from '../src/Errors';
+
+/**
+ * File handle of an in-memory file system, behaving like those of the File System Access API
+ */
+class ShimFileHandle implements OPFSFileHandle{
+	readonly kind = 'file';
+	data = new Uint8Array();
+	lastModified = Date.now();
+
+	constructor(readonly name: string){}
+
+	async getFile(){
+		return new File([this.data], this.name, {lastModified: this.lastModified});
+	}
+
+	async createWritable(){
+		const chunks: Uint8Array[] = [];
+		// Writes are kept aside until the stream is closed
+		return {
+			write: async (data: Uint8Array) => {
+				chunks.push(data.slice());
+			},
+			close: async () => {
+				this.data = new Uint8Array(Buffer.concat(chunks));
+				this.lastModified = Date.now();
+			}
+		};
+	}
+}
+
+class ShimDirectoryHandle implements OPFSDirectoryHandle{
+	readonly kind = 'directory';
+	children = new Map<string, ShimFileHandle | ShimDirectoryHandle>();
+
+	constructor(readonly name: string){}
+
+	async getDirectoryHandle(name: string, options?: {create?: boolean}){
+		return this.getHandle(name, ShimDirectoryHandle, options);
+	}
+
+	async getFileHandle(name: string, options?: {create?: boolean}){
+		return this.getHandle(name, ShimFileHandle, options);
+	}
+
+	async removeEntry(name: string, options?: {recursive?: boolean}){
+		const child = this.children.get(name);
+		if(!child) throw new DOMException('Not found', 'NotFoundError');
+		if(child.kind === 'directory' && child.children.size && !options?.recursive) throw new DOMException('Not empty', 'InvalidModificationError');
+		this.children.delete(name);
+	}
+
+	async *values(){
+		yield* [...this.children.values()];
+	}
+
+	private getHandle<T extends ShimFileHandle | ShimDirectoryHandle>(name: string, type: new (name: string) => T, options?: {create?: boolean}){
+		const child = this.children.get(name);
+		if(child && !(child instanceof type)) throw new DOMException('Type mismatch', 'TypeMismatchError');
+		if(child) return child as T;
+		if(!options?.create) throw new DOMException('Not found', 'NotFoundError');
+		const created = new type(name);
+		this.children.set(name, created);
+		return created;
+	}
+}
+
+describe('Test Origin Private File System data provider', () => {
+	test('Try basic file system operations', async () => {
+		const root = new ShimDirectoryHandle('');
+		const provider = new OPFSProvider(root);
+		const f = async () => {
+			await provider.createDir('/a/b/c', true);
+			await expect(provider.createDir('/a/b')).rejects.toThrowError(ExistsError);
+			await expect(provider.createDir('/x/y')).rejects.toThrowError(NotFoundError);
+			await provider.writeFile('/a/b/file.txt', 'Hello world');
+			await expect(provider.writeFile('/a/b', 'Hello')).rejects.toThrowError(ItemTypeError);
+			await expect(provider.readFile('/a/b')).rejects.toThrowError(ItemTypeError);
+			if(await provider.readFileString('/a/b/file.txt') !== 'Hello world') return false;
+			if(Buffer.from(await provider.readFileRange('/a/b/file.txt', 6, 100)).toString() !== 'world') return false;
+			const chunks: Uint8Array[] = [];
+			for await (const chunk of provider.readFileStream('/a/b/file.txt')) chunks.push(chunk);
+			if(Buffer.concat(chunks).toString() !== 'Hello world') return false;
+
+			const items = await provider.listItems('/a/b');
+			if(items.length !== 2) return false;
+			const file = items.find(i => i.name === 'file.txt');
+			if(!file || file.type !== 'f' || file.size !== 11 || file.fullName !== '/a/b/file.txt') return false;
+			if(await provider.stat('/a/b/file.txt/x') !== null || (await provider.stat('/a/b/c'))?.type !== 'd') return false;
+
+			await provider.rename('/a/b/file.txt', '/a/renamed.txt');
+			if(await provider.exists('/a/b/file.txt') || !await provider.exists('/a/renamed.txt')) return false;
+			await expect(provider.move('/a', '/a/b/c/inside')).rejects.toThrowError(RangeError);
+			await provider.writeFile('/a/b/c/other.txt', 'Other');
+			await expect(provider.move('/a/b/c', '/a/b')).rejects.toThrowError(ExistsError);
+			await provider.move('/a/b/c', '/moved');
+			if(await provider.readFileString('/moved/other.txt') !== 'Other' || await provider.exists('/a/b/c')) return false;
+			await expect(provider.removeFile('/moved')).rejects.toThrowError(ItemTypeError);
+			await provider.removeDir('/a');
+			if(await provider.stat('/a') !== null) return false;
+			return [...root.children.keys()].join() === 'moved';
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Try using a vault in the Origin Private File System', async () => {
+		const root = new ShimDirectoryHandle('');
+		const storage = {getDirectory: async () => root};
+		Object.defineProperty(globalThis, 'navigator', {value: {storage: storage}, configurable: true});
+		const provider = await OPFSProvider.open('/vaults');
+		await Vault.create(provider, '/', '12341234', {
+			create: {
+				name: 'opfsTest'
+			}
+		});
+		if(!root.children.has('vaults')) throw new Error('Vault was not created in the requested directory');
+		const v = await Vault.open(provider, '/opfsTest', '12341234', 'opfsTest');
+		await v.mkdir('/Folder');
+		await v.writeFile('/Folder/File.txt', 'Hello');
+		await expect(v.readFile('/Folder/File.txt').then(c => new TextDecoder().decode(c))).resolves.toBe('Hello');
+		await v.remove('/Folder');
+		await expect(v.stat('/Folder')).rejects.toThrowError(NotFoundError);
+	});
+});
@@ -0,0 +1,202 @@
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import { createHash, createHmac } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Vault } from '../src/Vault';
+import { S3Provider } from '../src/providers/S3Provider';
+import { ExistsError, HttpError, NotFoundError } from '../src/Errors';
+
+let server: Server;
+let endpoint: string;
+
+/**
+ * Check Signature Version 4 of a request, signed by the S3RVER key with the secret S3RVER
+ */
+function verifySignature(req: IncomingMessage, body: Buffer){
+	const auth = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/([^,]+), SignedHeaders=([^,]+), Signature=([0-9a-f]+)$/.exec(req.headers.authorization ?? '');
+	if(!auth || auth[1] !== 'S3RVER') return false;
+	if(createHash('sha256').update(body).digest('hex') !== req.headers['x-amz-content-sha256']) return false;
+	const [url, query] = (req.url ?? '').split('?');
+	const names = auth[3].split(';');
+	const canonical = [
+		req.method,
+		url,
+		(query ?? '').split('&').filter(q => q).sort().join('&'),
+		names.map(n => `${n}:${req.headers[n]}\n`).join(''),
+		auth[3],
+		req.headers['x-amz-content-sha256']
+	].join('\n');
+	const date = req.headers['x-amz-date'] as string;
+	const stringToSign = ['AWS4-HMAC-SHA256', date, auth[2], createHash('sha256').update(canonical).digest('hex')].join('\n');
+	let key: Buffer = Buffer.from('AWS4S3RVER');
+	for(const part of auth[2].split('/')) key = createHmac('sha256', key).update(part).digest();
+	return createHmac('sha256', key).update(stringToSign).digest('hex') === auth[4];
+}
+
+function escapeXml(text: string){
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Minimal S3 stand-in with a single bucket named vaults, supporting ListObjectsV2 and basic object operations
+ */
+function createS3Server(){
+	const objects = new Map<string, {data: Buffer, lastMod: Date}>();
+	const list = (params: URLSearchParams) => {
+		const prefix = params.get('prefix') ?? '';
+		const delimiter = params.get('delimiter');
+		const maxKeys = Number(params.get('max-keys') ?? 1000);
+		const after = params.has('continuation-token') ? Buffer.from(params.get('continuation-token') as string, 'base64').toString() : '';
+		const entries = new Map<string, boolean>();
+		for(const key of objects.keys()){
+			if(!key.startsWith(prefix)) continue;
+			const index = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+			if(index >= 0) entries.set(key.substring(0, index + 1), true);
+			else entries.set(key, false);
+		}
+		const sorted = [...entries.keys()].sort().filter(k => k > after);
+		const page = sorted.slice(0, maxKeys);
+		const truncated = sorted.length > maxKeys;
+		return '<?xml version="1.0" encoding="UTF-8"?><ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">'
+			+ `<Name>vaults</Name><Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount><IsTruncated>${truncated}</IsTruncated>`
+			+ (truncated ? `<NextContinuationToken>${Buffer.from(page[page.length - 1]).toString('base64')}</NextContinuationToken>` : '')
+			+ page.map(k => entries.get(k)
+				? `<CommonPrefixes><Prefix>${escapeXml(k)}</Prefix></CommonPrefixes>`
+				: `<Contents><Key>${escapeXml(k)}</Key><LastModified>${objects.get(k)!.lastMod.toISOString()}</LastModified><Size>${objects.get(k)!.data.byteLength}</Size></Contents>`
+			).join('')
+			+ '</ListBucketResult>';
+	}
+	return createServer(async (req, res) => {
+		const chunks: Buffer[] = [];
+		for await (const chunk of req) chunks.push(chunk as Buffer);
+		const body = Buffer.concat(chunks);
+		const url = new URL(req.url ?? '', 'http://localhost');
+		const [, bucket, ...segments] = url.pathname.split('/');
+		const key = segments.map(decodeURIComponent).join('/');
+		const send = (status: number, content?: string | Buffer, headers?: {[name: string]: string | number}) => {
+			res.writeHead(status, headers);
+			res.end(req.method === 'HEAD' ? undefined : content);
+		}
+		if(!verifySignature(req, body)) return send(403, '<Error><Code>SignatureDoesNotMatch</Code></Error>');
+		if(bucket !== 'vaults') return send(404, '<Error><Code>NoSuchBucket</Code></Error>');
+		if(!key && req.method === 'GET' && url.searchParams.get('list-type') === '2') return send(200, list(url.searchParams));
+		const object = objects.get(key);
+		switch(req.method){
+			case 'GET':
+			case 'HEAD': {
+				if(!object) return send(404, '<Error><Code>NoSuchKey</Code></Error>');
+				const headers = {'Last-Modified': object.lastMod.toUTCString()};
+				const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? '');
+				if(!range) return send(200, object.data, {...headers, 'Content-Length': object.data.byteLength});
+				const start = Number(range[1]);
+				if(start >= object.data.byteLength) return send(416);
+				const data = object.data.subarray(start, Number(range[2]) + 1);
+				return send(206, data, {...headers, 'Content-Length': data.byteLength});
+			}
+			case 'PUT': {
+				const source = req.headers['x-amz-copy-source'] as string | undefined;
+				if(source === undefined){
+					objects.set(key, {data: body, lastMod: new Date()});
+					return send(200);
+				}
+				const copied = objects.get(decodeURIComponent(source).replace(/^\/vaults\//, ''));
+				if(!copied) return send(404, '<Error><Code>NoSuchKey</Code></Error>');
+				objects.set(key, {data: copied.data, lastMod: new Date()});
+				return send(200, '<CopyObjectResult></CopyObjectResult>');
+			}
+			case 'DELETE':
+				objects.delete(key);
+				return send(204);
+		}
+		send(405);
+	});
+}
+
+beforeAll(async () => {
+	server = createS3Server();
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	await new Promise(resolve => server.close(resolve));
+});
+
+function createProvider(prefix?: string){
+	return new S3Provider({
+		endpoint: endpoint,
+		bucket: 'vaults',
+		accessKeyId: 'S3RVER',
+		secretAccessKey: 'S3RVER',
+		prefix: prefix,
+		pageSize: 2
+	});
+}
+
+describe('Test S3 data provider', () => {
+	test('Try basic file system operations', async () => {
+		const provider = createProvider('basic');
+		const f = async () => {
+			await provider.createDir('/a/b c/d', true);
+			await expect(provider.createDir('/a/b c')).rejects.toThrowError(ExistsError);
+			await expect(provider.createDir('/x/y')).rejects.toThrowError(NotFoundError);
+			const progress: number[] = [];
+			await provider.writeFile('/a/b c/file (1).txt', 'Hello world', (current) => progress.push(current));
+			if(progress[progress.length - 1] !== 11) return false;
+			if(await provider.readFileString('/a/b c/file (1).txt') !== 'Hello world') return false;
+			if(Buffer.from(await provider.readFileRange('/a/b c/file (1).txt', 6, 100)).toString() !== 'world') return false;
+			await expect(provider.createDir('/a/b c/file (1).txt/e', true)).rejects.toThrowError(ExistsError);
+
+			// Listing takes more than one page
+			for(let i = 0; i < 3; i++) await provider.writeFile(`/a/b c/${i}.txt`, `${i}`);
+			const items = await provider.listItems('/a/b c');
+			if(items.length !== 5) return false;
+			const file = items.find(i => i.name === 'file (1).txt');
+			if(!file || file.type !== 'f' || file.size !== 11 || file.fullName !== '/a/b c/file (1).txt') return false;
+			if(items.find(i => i.name === 'd')?.type !== 'd') return false;
+			await expect(provider.listItems('/missing')).rejects.toThrowError(NotFoundError);
+
+			await provider.rename('/a/b c/file (1).txt', '/a/renamed.txt');
+			if(await provider.exists('/a/b c/file (1).txt') || !await provider.exists('/a/renamed.txt')) return false;
+			await provider.writeFile('/a/b c/d/other.txt', 'Other');
+			await expect(provider.move('/a', '/a/b c/inside')).rejects.toThrowError(RangeError);
+			await expect(provider.move('/a/b c/d', '/a')).rejects.toThrowError(ExistsError);
+			await provider.move('/a/b c/d', '/moved');
+			if(await provider.readFileString('/moved/other.txt') !== 'Other') return false;
+			if((await provider.stat('/moved'))?.type !== 'd' || await provider.exists('/a/b c/d')) return false;
+			await expect(provider.readFile('/a/b c/d/other.txt')).rejects.toThrowError(NotFoundError);
+			await provider.removeDir('/a');
+			if(await provider.stat('/a') !== null) return false;
+			return (await provider.listItems('/')).map(i => i.name).join() === 'moved';
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Try using wrong credentials', async () => {
+		const provider = new S3Provider({
+			endpoint: endpoint,
+			bucket: 'vaults',
+			accessKeyId: 'S3RVER',
+			secretAccessKey: 'wrong'
+		});
+		await expect(provider.listItems('/').catch((e: HttpError) => e.status)).resolves.toBe(403);
+	});
+	test('Try using a vault in S3', async () => {
+		const provider = createProvider('vaultTest');
+		await expect(provider.listItems('/')).resolves.toEqual([]);
+		await Vault.create(provider, '/', '12341234', {
+			create: {
+				name: 's3Test'
+			}
+		});
+		const v = await Vault.open(provider, '/s3Test', '12341234', 's3Test');
+		await v.mkdir('/Folder/Sub', {recursive: true});
+		await v.writeFile('/Folder/Sub/File.txt', 'Hello');
+		await v.writeFile('/Folder/' + 'Long name '.repeat(30), 'Shortened');
+		await expect(v.readFile('/Folder/Sub/File.txt').then(c => new TextDecoder().decode(c))).resolves.toBe('Hello');
+		const folder = await v.resolve('/Folder');
+		if(folder.type !== 'd') throw new Error('Not a directory');
+		await expect(folder.listItems().then(items => items.map(i => i.decryptedName).sort().join())).resolves.toBe(['Long name '.repeat(30), 'Sub'].sort().join());
+		await v.remove('/Folder');
+		await expect(v.stat('/Folder')).rejects.toThrowError(NotFoundError);
+	});
+});
@@ -0,0 +1,75 @@
+import { describe, expect, test } from '@jest/globals';
+import { Vault } from '../src/Vault';
+import { DirID } from '../src/types';
+import { InMemoryProvider } from '../src/providers/InMemoryProvider';
+import { intercept, withMiddleware } from '../src/Middleware';
+import { TaskPriority, TaskScheduler } from '../src/Scheduler';
+
+describe('Test task scheduler', () => {
+	test('Try limiting provider calls of a vault', async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		// Calls take a while, so that they overlap if they are not limited
+		const counting = intercept({
+			call: async (call, run) => {
+				maxInFlight = Math.max(maxInFlight, ++inFlight);
+				try{
+					await new Promise(resolve => setTimeout(resolve, 2));
+					return await run();
+				} finally {
+					inFlight--;
+				}
+			}
+		});
+		const provider = withMiddleware(new InMemoryProvider(), counting);
+		const v = await Vault.create(provider, '/', '12341234', {
+			create: {
+				name: 'schedulerTest'
+			},
+			queryOpts: {
+				concurrency: 2
+			}
+		});
+		const f = async () => {
+			await Promise.all(['/A', '/B', '/C'].map(d => v.mkdir(d)));
+			await Promise.all(['/A', '/B', '/C'].flatMap(d => [1, 2, 3].map(i => v.writeFile(`${d}/File${i}.txt`, `Hello ${i}`))));
+			await Promise.all(['/A', '/B'].map(d => v.mkdir(`${d}/Sub`)));
+			await v.writeFile('/A/Sub/File.txt', 'Hello');
+			const a = await v.resolve('/A');
+			const b = await v.resolve('/B');
+			const c = await v.resolve('/C');
+			if(a.type !== 'd' || c.type !== 'd') return false;
+			const discovered: number[] = [];
+			await Promise.all([
+				v.deleteDir(a, (d) => discovered.push(d)),
+				b.move(await c.getDirId()),
+				v.readFile('/C/File1.txt')
+			]);
+			if(discovered[discovered.length - 1] !== 6) return false;
+			if((await v.listItems('' as DirID)).length !== 1 || (await v.stat('/C/B')).type !== 'd') return false;
+			return maxInFlight === 2 && v.scheduler.active === 0;
+		}
+		await expect(f()).resolves.toBe(true);
+		expect(() => new TaskScheduler(0)).toThrowError(RangeError);
+	});
+	test('Try task priorities', async () => {
+		const scheduler = new TaskScheduler(1);
+		const order: string[] = [];
+		const task = (name: string) => async () => {
+			order.push(name);
+		};
+		const release = await scheduler.acquire();
+		const tasks = [
+			scheduler.run(task('low'), TaskPriority.Low),
+			scheduler.run(task('normal 1')),
+			scheduler.run(task('high'), TaskPriority.High),
+			scheduler.run(task('normal 2'))
+		];
+		expect(scheduler.pending).toBe(4);
+		release();
+		release();
+		await Promise.all(tasks);
+		expect(order).toEqual(['high', 'normal 1', 'normal 2', 'low']);
+		expect(scheduler.active).toBe(0);
+	});
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from '@jest/globals';
+import { Vault } from '../src/Vault';
+import { InMemoryProvider } from '../src/providers/InMemoryProvider';
+import { intercept, withMiddleware } from '../src/Middleware';
+import { ConflictError, ExistsError, InvalidSignatureError } from '../src/Errors';
+import { TransferProgress } from '../src/Transfer';
+import { DirID } from '../src/types';
+
+describe('Test importing and exporting trees', () => {
+	test('Try importing a tree from a data provider', async () => {
+		const source = new InMemoryProvider();
+		await source.createDir('/photos/2024/summer', true);
+		await source.createDir('/photos/empty');
+		await source.writeFile('/photos/readme.txt', 'Photos');
+		await source.writeFile('/photos/2024/a.jpg', new Uint8Array(70000).fill(1));
+		await source.writeFile('/photos/2024/summer/b.jpg', new Uint8Array(1000).fill(2));
+		await source.writeFile('/photos/2024/summer/broken.jpg', 'Broken');
+		// Reading one of the files fails
+		const failing = withMiddleware(source, intercept({
+			stream: (call, open) => {
+				if(call.args[0] === '/photos/2024/summer/broken.jpg') throw new Error('Read failed');
+				return open();
+			}
+		}));
+		const v = await Vault.create(new InMemoryProvider(), '/', '12341234', {
+			create: {
+				name: 'importTest'
+			}
+		});
+		await v.mkdir('/photos/2024', {recursive: true});
+		await v.writeFile('/photos/readme.txt', 'Existing');
+		const photos = await v.resolve('/photos');
+		if(photos.type !== 'd') throw new Error('Not a directory');
+		const progress: TransferProgress[] = [];
+		const summary = await v.importTree(failing, '/photos', await photos.getDirId(), {concurrency: 2, onProgress: p => progress.push(p)});
+		expect(summary.files).toBe(2);
+		expect(summary.dirs).toBe(2);
+		expect(summary.bytes).toBe(71000);
+		expect(summary.failures.map(f => f.path).sort()).toEqual(['/photos/2024/summer/broken.jpg', '/photos/readme.txt']);
+		expect(summary.failures.find(f => f.path === '/photos/readme.txt')?.error).toBeInstanceOf(ConflictError);
+		expect(progress[progress.length - 1]).toEqual({files: 4, totalFiles: 4, bytes: 71000, totalBytes: 71012});
+		await expect(v.readFile('/photos/2024/a.jpg')).resolves.toEqual(new Uint8Array(70000).fill(1));
+		await expect(v.readFile('/photos/2024/summer/b.jpg')).resolves.toEqual(new Uint8Array(1000).fill(2));
+		await expect(v.stat('/photos/empty').then(s => s.type)).resolves.toBe('d');
+
+		// Files that have been imported are skipped when importing again
+		const again = await v.importTree(source, '/photos', await photos.getDirId(), {conflict: 'skip'});
+		expect(again).toEqual({files: 1, skipped: 3, dirs: 0, bytes: 6, failures: []});
+		await expect(v.readFile('/photos/readme.txt').then(c => new TextDecoder().decode(c))).resolves.toBe('Existing');
+		const root = await v.importTree(source, '/', '' as DirID, {conflict: 'overwrite'});
+		expect(root.files).toBe(4);
+		await expect(v.readFile('/photos/readme.txt').then(c => new TextDecoder().decode(c))).resolves.toBe('Photos');
+	});
+
+	test('Try exporting a subtree into a data provider', async () => {
+		const provider = new InMemoryProvider();
+		const v = await Vault.create(provider, '/', '12341234', {
+			create: {
+				name: 'exportTest'
+			}
+		});
+		await v.mkdir('/docs/2024/empty', {recursive: true});
+		await v.writeFile('/docs/readme.txt', 'Docs');
+		await v.writeFile('/docs/2024/a.bin', new Uint8Array(70000).fill(1));
+		await v.writeFile('/docs/2024/tampered.bin', new Uint8Array(40000).fill(2));
+		const docs = await v.resolve('/docs');
+		if(docs.type !== 'd') throw new Error('Not a directory');
+		await v.createSymlink('link', '/docs/readme.txt', await docs.getDirId());
+		// Only the second chunk of the file is changed
+		const tampered = await v.resolve('/docs/2024/tampered.bin');
+		if(tampered.type !== 'f') throw new Error('Not a file');
+		const encrypted = await provider.readFile(tampered.getContentPath());
+		encrypted[encrypted.length - 40] ^= 1;
+		await provider.writeFile(tampered.getContentPath(), encrypted);
+
+		const target = new InMemoryProvider();
+		await target.createDir('/out');
+		await target.writeFile('/out/readme.txt', 'Existing');
+		const progress: TransferProgress[] = [];
+		const summary = await v.exportTree(docs, target, '/out', {concurrency: 2, onProgress: p => progress.push(p)});
+		expect(summary).toMatchObject({files: 1, skipped: 1, dirs: 2, bytes: 70000});
+		expect(summary.failures.map(f => f.path).sort()).toEqual(['/2024/tampered.bin', '/readme.txt']);
+		expect(summary.failures.find(f => f.path === '/2024/tampered.bin')?.error).toBeInstanceOf(InvalidSignatureError);
+		expect(summary.failures.find(f => f.path === '/readme.txt')?.error).toBeInstanceOf(ExistsError);
+		// The first chunk of the tampered file has been read before the second one failed
+		expect(progress[progress.length - 1]).toEqual({files: 3, totalFiles: 3, bytes: 70000 + 32768, totalBytes: 110004});
+		// Progress is reported for every chunk, not only when a file is done
+		expect(new Set(progress.map(p => p.bytes)).size).toBeGreaterThanOrEqual(5);
+		await expect(target.readFile('/out/2024/a.bin')).resolves.toEqual(new Uint8Array(70000).fill(1));
+		await expect(target.exists('/out/2024/tampered.bin')).resolves.toBe(false);
+		// Nothing is left of the temporary file the tampered file was streamed into
+		await expect(target.listItems('/out/2024').then(items => items.map(i => i.name).sort())).resolves.toEqual(['a.bin', 'empty']);
+		await expect(target.exists('/out/2024/empty')).resolves.toBe(true);
+		// Modification times are those of the encrypted items
+		const a = await v.resolve('/docs/2024/a.bin');
+		const year = await v.resolve('/docs/2024');
+		await expect(target.stat('/out/2024/a.bin').then(s => s?.lastMod)).resolves.toEqual(a.lastMod);
+		await expect(target.stat('/out/2024').then(s => s?.lastMod)).resolves.toEqual(year.lastMod);
+
+		const renamed = await v.exportTree(await v.getRootDir(), target, '/out', {conflict: 'rename-with-suffix'});
+		expect(renamed.dirs).toBe(3);
+		await expect(target.readFile('/out/docs/readme.txt').then(c => new TextDecoder().decode(c))).resolves.toBe('Docs');
+		const again = await v.exportTree(docs, target, '/out', {conflict: 'rename-with-suffix'});
+		expect(again.files).toBe(2);
+		await expect(target.readFile('/out/readme (1).txt').then(c => new TextDecoder().decode(c))).resolves.toBe('Docs');
+		await expect(target.exists('/out/2024/a (1).bin')).resolves.toBe(true);
+
+		// Files exported at the same time never pick the same free name
+		await v.writeFile('/docs/readme (1).txt', 'Suffixed');
+		await target.removeDir('/out');
+		await target.createDir('/out');
+		await target.writeFile('/out/readme.txt', 'Existing');
+		const parallel = await v.exportTree(docs, target, '/out', {conflict: 'rename-with-suffix', concurrency: 4});
+		expect(parallel.files).toBe(3);
+		const contents = await Promise.all((await target.listItems('/out')).filter(i => i.type === 'f').map(i => target.readFileString(i.fullName)));
+		expect(contents.sort()).toEqual(['Docs', 'Existing', 'Suffixed']);
+	});
+});
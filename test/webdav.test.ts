@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import { v2 as webdav } from 'webdav-server';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { Vault } from '../src/Vault';
+import { WebDavProvider } from '../src/providers/WebDavProvider';
+import { ExistsError, HttpError, NotFoundError } from '../src/Errors';
+
+let server: webdav.WebDAVServer;
+let baseUrl: string;
+
+beforeAll(async () => {
+	const users = new webdav.SimpleUserManager();
+	const user = users.addUser('user', 'password', false);
+	const privileges = new webdav.SimplePathPrivilegeManager();
+	privileges.setRights(user, '/', ['all']);
+	server = new webdav.WebDAVServer({
+		hostname: '127.0.0.1',
+		port: 0,
+		httpAuthentication: new webdav.HTTPBasicAuthentication(users, 'Test'),
+		privilegeManager: privileges
+	});
+	const http = await new Promise<Server>(resolve => server.start(s => resolve(s as Server)));
+	baseUrl = `http://127.0.0.1:${(http.address() as AddressInfo).port}/dav root`;
+	await new WebDavProvider({baseUrl: baseUrl.replace(/\/dav root$/, ''), auth: {username: 'user', password: 'password'}}).createDir('/dav root');
+});
+
+afterAll(async () => {
+	await new Promise<void>(resolve => server.stop(() => resolve()));
+});
+
+describe('Test WebDAV data provider', () => {
+	test('Try basic file system operations', async () => {
+		const provider = new WebDavProvider({
+			baseUrl: baseUrl,
+			auth: {username: 'user', password: 'password'}
+		});
+		const f = async () => {
+			await provider.createDir('/a/b c/d', true);
+			await expect(provider.createDir('/a/b c')).rejects.toThrowError(ExistsError);
+			await expect(provider.createDir('/x/y')).rejects.toThrowError(NotFoundError);
+			const progress: number[] = [];
+			await provider.writeFile('/a/b c/file #1.txt', 'Hello world', (current) => progress.push(current));
+			if(progress[progress.length - 1] !== 11) return false;
+			const read: number[] = [];
+			if(await provider.readFileString('/a/b c/file #1.txt', (current) => read.push(current)) !== 'Hello world') return false;
+			if(read[read.length - 1] !== 11) return false;
+			if(Buffer.from(await provider.readFileRange('/a/b c/file #1.txt', 6, 100)).toString() !== 'world') return false;
+
+			const items = await provider.listItems('/a/b c');
+			if(items.length !== 2) return false;
+			const file = items.find(i => i.name === 'file #1.txt');
+			if(!file || file.type !== 'f' || file.size !== 11 || file.fullName !== '/a/b c/file #1.txt' || isNaN(file.lastMod.getTime())) return false;
+			if(items.find(i => i.name === 'd')?.type !== 'd') return false;
+
+			await provider.rename('/a/b c/file #1.txt', '/a/renamed.txt');
+			if(await provider.exists('/a/b c/file #1.txt') || !await provider.exists('/a/renamed.txt')) return false;
+			await provider.writeFile('/a/b c/d/other.txt', 'Other');
+			await provider.move('/a/b c/d', '/moved');
+			if(await provider.readFileString('/moved/other.txt') !== 'Other') return false;
+			await expect(provider.readFile('/a/b c/d/other.txt')).rejects.toThrowError(NotFoundError);
+			await provider.removeFile('/moved/other.txt');
+			await provider.removeDir('/a');
+			if(await provider.stat('/a') !== null) return false;
+			return (await provider.listItems('/')).map(i => i.name).join() === 'moved';
+		}
+		await expect(f()).resolves.toBe(true);
+	});
+	test('Try using wrong credentials', async () => {
+		const provider = new WebDavProvider({
+			baseUrl: baseUrl,
+			headers: {Authorization: 'Basic ' + Buffer.from('user:wrong').toString('base64')},
+			auth: {username: 'user', password: 'password'}
+		});
+		await expect(provider.listItems('/')).rejects.toThrowError(HttpError);
+		await expect(provider.listItems('/').catch((e: HttpError) => e.status)).resolves.toBe(401);
+	});
+	test('Try using a vault over WebDAV', async () => {
+		const provider = new WebDavProvider({
+			baseUrl: baseUrl,
+			auth: {username: 'user', password: 'password'}
+		});
+		await provider.createDir('/vaults', true);
+		await Vault.create(provider, '/vaults', '12341234', {
+			create: {
+				name: 'davTest'
+			}
+		});
+		const v = await Vault.open(provider, '/vaults/davTest', '12341234', 'davTest');
+		const content = 'x'.repeat(40000);
+		await v.mkdir('/Folder');
+		await v.writeFile('/Folder/File.txt', content);
+		await expect(v.readFile('/Folder/File.txt').then(c => new TextDecoder().decode(c))).resolves.toBe(content);
+		await expect(v.stat('/Folder/File.txt').then(s => s.size)).resolves.toBe(40000);
+		const file = await v.resolve('/Folder/File.txt');
+		if(file.type !== 'f') throw new Error('Not a file');
+		await expect(file.readRange(32760, 20).then(c => new TextDecoder().decode(c))).resolves.toBe('x'.repeat(20));
+		const root = await v.getRootDir();
+		await expect(root.listItems().then(items => items.map(i => i.decryptedName).join())).resolves.toBe('Folder');
+	});
+});